@@ -0,0 +1,143 @@
+/**
+ * Public API of the Red Light Green Light extension.
+ *
+ * Copy this file into your extension and get the API from the extension's exports:
+ *
+ * ```ts
+ * const extension = vscode.extensions.getExtension<RedLightGreenLightExports>('redlight-greenlight.red-light-green-light');
+ * const api = (await extension?.activate())?.getApi(1);
+ * api?.onStateChange(event => {
+ *     if (event.currentState === 'green') {
+ *         // e.g. let notifications through again
+ *     }
+ * });
+ * ```
+ *
+ * Each API version keeps its shape once released; breaking changes ship as a new version.
+ */
+
+import { Disposable } from 'vscode';
+
+/**
+ * Phase of the game. `yellow` only occurs when the yellow warning light is enabled.
+ */
+export type GameState = 'stopped' | 'green' | 'yellow' | 'red' | 'paused';
+
+/**
+ * Kind of movement that caused a violation
+ */
+export type ViolationKind = 'edit' | 'save' | 'terminal' | 'selection' | 'scroll' | 'editorSwitch';
+
+/**
+ * Penalty applied for a violation
+ */
+export type ViolationAction = 'close' | 'warn' | 'revert' | 'lock' | 'endSession';
+
+/**
+ * Fired when the game moves to a different state. Timer ticks within a phase do not fire it.
+ */
+export interface StateChangeEvent {
+    readonly previousState: GameState;
+    readonly currentState: GameState;
+    /** Time of the change in milliseconds since the epoch */
+    readonly timestamp: number;
+    /** Seconds left in the new phase, if it is timed */
+    readonly remainingTime?: number;
+}
+
+/**
+ * Fired when the player moves during red light
+ */
+export interface ViolationEvent {
+    /** Time of the violation in milliseconds since the epoch */
+    readonly timestamp: number;
+    readonly kind: ViolationKind;
+    /** URI of the document, or the terminal name for terminal violations */
+    readonly documentUri: string;
+    /** Short description, e.g. `Added: "x"` */
+    readonly description: string;
+    readonly action: ViolationAction;
+    /** Seconds typing is locked for, when the action is `lock` */
+    readonly lockDuration?: number;
+}
+
+/**
+ * Totals kept across sessions
+ */
+export interface LifetimeStats {
+    readonly sessionsPlayed: number;
+    readonly totalViolations: number;
+    /** Total play time in milliseconds */
+    readonly totalGameTime: number;
+    /** Most consecutive red lights survived without a violation */
+    readonly bestStreak: number;
+    readonly currentStreak: number;
+}
+
+/**
+ * Snapshot of the current session
+ */
+export interface SessionStats {
+    readonly state: GameState;
+    /** True while a session is running, including while it is paused */
+    readonly active: boolean;
+    /** Seconds left in the current phase, or 0 when stopped */
+    readonly remainingTime: number;
+    /** Length of the current session in milliseconds, or 0 when stopped */
+    readonly sessionDuration: number;
+    /** Violations in the current session */
+    readonly violations: number;
+    readonly lifetime: LifetimeStats;
+}
+
+/**
+ * Version 1 of the API
+ */
+export interface RedLightGreenLightApi {
+    readonly version: 1;
+
+    /** Current state of the game */
+    readonly state: GameState;
+
+    /**
+     * Listens for state changes
+     * @returns Disposable that removes the listener
+     */
+    onStateChange(listener: (event: StateChangeEvent) => void): Disposable;
+
+    /**
+     * Listens for red light violations
+     * @returns Disposable that removes the listener
+     */
+    onViolation(listener: (event: ViolationEvent) => void): Disposable;
+
+    /**
+     * Starts a session with the current settings. Does nothing if a session is running.
+     * @throws Error if the settings are invalid
+     */
+    start(): void;
+
+    /** Stops the current session. Does nothing if no session is running. */
+    stop(): void;
+
+    /** Pauses the current session, keeping the remaining phase time */
+    pause(): void;
+
+    /** Resumes a paused session */
+    resume(): void;
+
+    /** Gets a read-only snapshot of the session and lifetime statistics */
+    getSessionStats(): SessionStats;
+}
+
+/**
+ * Value returned from the extension's `activate()`
+ */
+export interface RedLightGreenLightExports {
+    /**
+     * Gets a version of the API
+     * @param version API version
+     * @throws Error if the version is not supported
+     */
+    getApi(version: 1): RedLightGreenLightApi;
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import type {
+    GameState as ApiGameState,
+    RedLightGreenLightApi,
+    RedLightGreenLightExports,
+    SessionStats,
+    StateChangeEvent,
+    ViolationEvent
+} from '../../api/red-light-green-light';
+import { GameEngine } from '../game/game-engine';
+import { SettingsManager } from '../config/settings-manager';
+import { InputMonitor } from '../services/input-monitor';
+import { StatsManager } from '../services/stats-manager';
+
+/**
+ * Latest API version
+ */
+export const API_VERSION = 1;
+
+/**
+ * Version 1 of the public API, backed by the extension's components.
+ *
+ * The shipped `api/red-light-green-light.d.ts` is the contract; this class
+ * implements it, so the compiler catches any drift between the two.
+ */
+export class ExtensionApi implements RedLightGreenLightApi, RedLightGreenLightExports, vscode.Disposable {
+    public readonly version = API_VERSION;
+    private gameEngine: GameEngine;
+    private settingsManager: SettingsManager;
+    private inputMonitor: InputMonitor;
+    private statsManager: StatsManager;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new ExtensionApi instance
+     * @param gameEngine Game engine instance
+     * @param settingsManager Settings manager instance
+     * @param inputMonitor Input monitor instance reporting violations
+     * @param statsManager Stats manager instance
+     */
+    constructor(
+        gameEngine: GameEngine,
+        settingsManager: SettingsManager,
+        inputMonitor: InputMonitor,
+        statsManager: StatsManager
+    ) {
+        this.gameEngine = gameEngine;
+        this.settingsManager = settingsManager;
+        this.inputMonitor = inputMonitor;
+        this.statsManager = statsManager;
+    }
+
+    /**
+     * Gets a version of the API
+     * @param version API version
+     * @throws Error if the version is not supported
+     */
+    public getApi(version: 1): RedLightGreenLightApi {
+        if (version !== API_VERSION) {
+            throw new Error(`Red Light Green Light API version ${version} is not supported; the latest is ${API_VERSION}`);
+        }
+        return this;
+    }
+
+    /**
+     * Current state of the game
+     */
+    public get state(): ApiGameState {
+        return this.gameEngine.getCurrentState();
+    }
+
+    /**
+     * Listens for state changes, leaving out timer ticks within a phase
+     * @param listener State change listener
+     */
+    public onStateChange(listener: (event: StateChangeEvent) => void): vscode.Disposable {
+        return this.track(this.gameEngine.onStateChange(event => {
+            if (event.previousState === event.currentState) {
+                return;
+            }
+
+            this.notify(listener, {
+                previousState: event.previousState,
+                currentState: event.currentState,
+                timestamp: event.timestamp,
+                remainingTime: event.remainingTime
+            });
+        }));
+    }
+
+    /**
+     * Listens for red light violations
+     * @param listener Violation listener
+     */
+    public onViolation(listener: (event: ViolationEvent) => void): vscode.Disposable {
+        return this.track(this.inputMonitor.onViolation(event => {
+            this.notify(listener, {
+                timestamp: event.timestamp,
+                kind: event.kind,
+                documentUri: event.documentUri,
+                description: event.changeText,
+                action: event.actionTaken,
+                lockDuration: event.lockDuration
+            });
+        }));
+    }
+
+    /**
+     * Starts a session with the current settings
+     * @throws Error if the settings are invalid
+     */
+    public start(): void {
+        if (this.gameEngine.isActive()) {
+            return;
+        }
+
+        const validation = this.settingsManager.validateSettings();
+        if (!validation.isValid) {
+            throw new Error(`Invalid settings: ${validation.errors.join('; ')}`);
+        }
+
+        this.gameEngine.updateConfig(this.settingsManager.toGameConfig());
+        this.gameEngine.start();
+    }
+
+    /**
+     * Stops the current session; the summary and per-session resets follow the engine's stop,
+     * as for the stop command
+     */
+    public stop(): void {
+        this.gameEngine.stop();
+    }
+
+    /**
+     * Pauses the current session
+     */
+    public pause(): void {
+        this.gameEngine.pause();
+    }
+
+    /**
+     * Resumes a paused session
+     */
+    public resume(): void {
+        this.gameEngine.resume();
+    }
+
+    /**
+     * Gets a snapshot of the session and lifetime statistics
+     */
+    public getSessionStats(): SessionStats {
+        const active = this.gameEngine.isActive();
+
+        return {
+            state: this.gameEngine.getCurrentState(),
+            active,
+            remainingTime: active ? this.gameEngine.getRemainingTime() : 0,
+            sessionDuration: active ? this.gameEngine.getSessionDuration() : 0,
+            violations: this.statsManager.getSessionViolations(),
+            lifetime: this.statsManager.getStats()
+        };
+    }
+
+    /**
+     * Calls an API listener, keeping errors in other extensions away from the game
+     * @param listener Listener registered through the API
+     * @param event Event to pass
+     */
+    private notify<T>(listener: (event: T) => void, event: T): void {
+        try {
+            listener(event);
+        } catch (error) {
+            console.error('Error in Red Light Green Light API listener:', error);
+        }
+    }
+
+    /**
+     * Keeps a listener registration so it is removed when the extension deactivates
+     * @param disposable Listener registration
+     * @returns Disposable that removes the listener
+     */
+    private track(disposable: vscode.Disposable): vscode.Disposable {
+        this.disposables.push(disposable);
+
+        return new vscode.Disposable(() => {
+            disposable.dispose();
+            const index = this.disposables.indexOf(disposable);
+            if (index >= 0) {
+                this.disposables.splice(index, 1);
+            }
+        });
+    }
+
+    /**
+     * Disposes of the API and removes all listeners registered through it
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
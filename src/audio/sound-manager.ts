@@ -12,6 +12,7 @@ const play = require('sound-play');
 export enum SoundType {
     RedLight = 'redLight',
     GreenLight = 'greenLight',
+    YellowLight = 'yellowLight',
     Violation = 'violation',
     GameStart = 'gameStart',
     GameStop = 'gameStop'
@@ -23,6 +24,7 @@ export enum SoundType {
 const SOUND_FILES = {
     [SoundType.RedLight]: 'red-light.mp3',
     [SoundType.GreenLight]: 'green-light.mp3',
+    [SoundType.YellowLight]: 'yellow-light.mp3',
     [SoundType.Violation]: 'violation.mp3',
     [SoundType.GameStart]: 'game-start.mp3',
     [SoundType.GameStop]: 'game-stop.mp3'
@@ -34,6 +36,7 @@ const SOUND_FILES = {
 const SOUND_MESSAGES = {
     [SoundType.RedLight]: '🔴 RED LIGHT',
     [SoundType.GreenLight]: '🟢 GREEN LIGHT',
+    [SoundType.YellowLight]: '🟡 YELLOW LIGHT',
     [SoundType.Violation]: '⚠️ RED LIGHT VIOLATION',
     [SoundType.GameStart]: '🎮 GAME STARTED',
     [SoundType.GameStop]: '🛑 GAME STOPPED'
@@ -258,6 +261,8 @@ export class SoundManager implements vscode.Disposable {
                 return this.config.redLightSound;
             case SoundType.GreenLight:
                 return this.config.greenLightSound;
+            case SoundType.YellowLight:
+                return this.config.yellowLightSound;
             case SoundType.Violation:
                 return this.config.violationSound;
             case SoundType.GameStart:
@@ -279,6 +284,8 @@ export class SoundManager implements vscode.Disposable {
                 return 800;
             case SoundType.GreenLight:
                 return 500;
+            case SoundType.YellowLight:
+                return 700;
             case SoundType.Violation:
                 return 1200;
             case SoundType.GameStart:
@@ -320,6 +327,7 @@ export class SoundManager implements vscode.Disposable {
             `📁 assets/sounds/\n` +
             `├── red-light.mp3\n` +
             `├── green-light.mp3\n` +
+            `├── yellow-light.mp3\n` +
             `├── violation.mp3\n` +
             `├── game-start.mp3\n` +
             `└── game-stop.mp3\n\n` +
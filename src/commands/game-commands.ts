@@ -2,7 +2,11 @@ import * as vscode from 'vscode';
 import { GameEngine } from '../game/game-engine';
 import { SettingsManager } from '../config/settings-manager';
 import { ActionHandler } from '../services/action-handler';
+import { StatsManager } from '../services/stats-manager';
+import { SessionHistory, HistoryExportFormat } from '../services/session-history';
+import { ScoreKeeper } from '../services/score-keeper';
 import { GameState } from '../types/game-types';
+import { ExtensionSettings } from '../types/settings-types';
 
 /**
  * Implements game commands for the Red Light Green Light extension
@@ -11,6 +15,9 @@ export class GameCommands implements vscode.Disposable {
     private gameEngine: GameEngine;
     private settingsManager: SettingsManager;
     private actionHandler: ActionHandler;
+    private statsManager: StatsManager;
+    private sessionHistory: SessionHistory;
+    private scoreKeeper: ScoreKeeper;
     private disposables: vscode.Disposable[] = [];
 
     /**
@@ -18,15 +25,35 @@ export class GameCommands implements vscode.Disposable {
      * @param gameEngine Game engine instance
      * @param settingsManager Settings manager instance
      * @param actionHandler Action handler instance
+     * @param statsManager Stats manager instance
+     * @param sessionHistory Session history instance
+     * @param scoreKeeper Score keeper instance
      */
     constructor(
         gameEngine: GameEngine,
         settingsManager: SettingsManager,
-        actionHandler: ActionHandler
+        actionHandler: ActionHandler,
+        statsManager: StatsManager,
+        sessionHistory: SessionHistory,
+        scoreKeeper: ScoreKeeper
     ) {
         this.gameEngine = gameEngine;
         this.settingsManager = settingsManager;
         this.actionHandler = actionHandler;
+        this.statsManager = statsManager;
+        this.sessionHistory = sessionHistory;
+        this.scoreKeeper = scoreKeeper;
+
+        // Sessions also end by finishing their schedule, through links and the API
+        const stateChangeDisposable = gameEngine.onStateChange(event => {
+            if (event.currentState === GameState.Stopped && event.previousState !== GameState.Stopped) {
+                this.settingsManager.setSessionOverrides(undefined);
+                this.showSessionSummary().then(undefined, error => {
+                    console.error('Error showing session summary:', error);
+                });
+            }
+        });
+        this.disposables.push(stateChangeDisposable);
     }
 
     /**
@@ -35,9 +62,10 @@ export class GameCommands implements vscode.Disposable {
      */
     public registerCommands(context: vscode.ExtensionContext): void {
         // Register start game command
+        // Menus pass their own arguments, which are not setting overrides
         const startCommand = vscode.commands.registerCommand(
             'redLightGreenLight.startGame',
-            this.startGame.bind(this)
+            () => this.startGame()
         );
         context.subscriptions.push(startCommand);
         this.disposables.push(startCommand);
@@ -50,6 +78,22 @@ export class GameCommands implements vscode.Disposable {
         context.subscriptions.push(stopCommand);
         this.disposables.push(stopCommand);
 
+        // Register pause game command
+        const pauseCommand = vscode.commands.registerCommand(
+            'redLightGreenLight.pauseGame',
+            this.pauseGame.bind(this)
+        );
+        context.subscriptions.push(pauseCommand);
+        this.disposables.push(pauseCommand);
+
+        // Register resume game command
+        const resumeCommand = vscode.commands.registerCommand(
+            'redLightGreenLight.resumeGame',
+            this.resumeGame.bind(this)
+        );
+        context.subscriptions.push(resumeCommand);
+        this.disposables.push(resumeCommand);
+
         // Register toggle game command
         const toggleCommand = vscode.commands.registerCommand(
             'redLightGreenLight.toggleGame',
@@ -74,6 +118,14 @@ export class GameCommands implements vscode.Disposable {
         context.subscriptions.push(showStatsCommand);
         this.disposables.push(showStatsCommand);
 
+        // Register export history command
+        const exportHistoryCommand = vscode.commands.registerCommand(
+            'redLightGreenLight.exportHistory',
+            this.exportHistory.bind(this)
+        );
+        context.subscriptions.push(exportHistoryCommand);
+        this.disposables.push(exportHistoryCommand);
+
         // Register test actions command (for development)
         const testActionsCommand = vscode.commands.registerCommand(
             'redLightGreenLight.testActions',
@@ -85,11 +137,16 @@ export class GameCommands implements vscode.Disposable {
 
     /**
      * Starts the Red Light Green Light game
+     * @param overrides Settings that apply to this session only, layered over the current settings
      */
-    public async startGame(): Promise<void> {
+    public async startGame(overrides?: Partial<ExtensionSettings>): Promise<void> {
         try {
+            const settings: ExtensionSettings = { ...this.settingsManager.getSettings(), ...overrides };
+
             // Validate settings before starting
-            const validation = this.settingsManager.validateSettings();
+            const validation = overrides
+                ? this.settingsManager.validateSettingsObject(settings)
+                : this.settingsManager.validateSettings();
             if (!validation.isValid) {
                 await vscode.window.showErrorMessage(
                     `Cannot start game due to invalid settings:\n${validation.errors.join('\n')}`,
@@ -121,9 +178,9 @@ export class GameCommands implements vscode.Disposable {
                 return;
             }
 
-            // Update game config from current settings
-            const gameConfig = this.settingsManager.toGameConfig();
-            this.gameEngine.updateConfig(gameConfig);
+            // Keep the overrides for the whole session, so settings changes do not drop them
+            this.settingsManager.setSessionOverrides(overrides);
+            this.gameEngine.updateConfig(this.settingsManager.toGameConfig());
 
             // Start the game
             this.gameEngine.start();
@@ -152,26 +209,74 @@ export class GameCommands implements vscode.Disposable {
                 return;
             }
 
-            // Stop the game
+            // The session summary is shown once the engine reports the stop
             this.gameEngine.stop();
+        } catch (error) {
+            console.error('Error stopping game:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to stop game: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
 
-            // Show session summary
-            const sessionDuration = Math.round(this.gameEngine.getSessionDuration() / 1000);
-            const violationCount = this.actionHandler.getViolationCount();
-            
-            const summaryMessage = `Game stopped!\n\n` +
-                                 `Session Duration: ${Math.floor(sessionDuration / 60)}:${(sessionDuration % 60).toString().padStart(2, '0')}\n` +
-                                 `Red Light Violations: ${violationCount}`;
+    /**
+     * Shows the summary of the session that just ended, while the engine still reports its duration
+     */
+    private async showSessionSummary(): Promise<void> {
+        const sessionDuration = Math.round(this.gameEngine.getSessionDuration() / 1000);
+
+        // The session's violations are kept until the next session starts
+        const violationCount = this.statsManager.getSessionViolations();
+
+        const summaryMessage = `Game stopped!\n\n` +
+                             `Session Duration: ${Math.floor(sessionDuration / 60)}:${(sessionDuration % 60).toString().padStart(2, '0')}\n` +
+                             `Red Light Violations: ${violationCount}\n` +
+                             `Score: ${this.scoreKeeper.getScore()}`;
+
+        await vscode.window.showInformationMessage(summaryMessage, 'Close');
+    }
+
+    /**
+     * Pauses the running game, keeping the current phase and session
+     */
+    public async pauseGame(): Promise<void> {
+        try {
+            if (!this.gameEngine.isActive()) {
+                await vscode.window.showInformationMessage('Game is not currently running.');
+                return;
+            }
 
-            await vscode.window.showInformationMessage(summaryMessage, 'Close');
+            if (this.gameEngine.isPaused()) {
+                await vscode.window.showInformationMessage('Game is already paused.');
+                return;
+            }
 
-            // Reset violation count for next session
-            this.actionHandler.resetViolationCount();
+            this.gameEngine.pause();
 
         } catch (error) {
-            console.error('Error stopping game:', error);
+            console.error('Error pausing game:', error);
             await vscode.window.showErrorMessage(
-                `Failed to stop game: ${error instanceof Error ? error.message : 'Unknown error'}`
+                `Failed to pause game: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Resumes a paused game where it left off
+     */
+    public async resumeGame(): Promise<void> {
+        try {
+            if (!this.gameEngine.isPaused()) {
+                await vscode.window.showInformationMessage('Game is not currently paused.');
+                return;
+            }
+
+            this.gameEngine.resume();
+
+        } catch (error) {
+            console.error('Error resuming game:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to resume game: ${error instanceof Error ? error.message : 'Unknown error'}`
             );
         }
     }
@@ -222,6 +327,7 @@ export class GameCommands implements vscode.Disposable {
             const sessionDuration = Math.round(this.gameEngine.getSessionDuration() / 1000);
             const violationCount = this.actionHandler.getViolationCount();
             const settings = this.settingsManager.getDisplaySettings();
+            const lifetimeStats = this.statsManager.getStats();
 
             let statsMessage = '📊 Red Light Green Light - Game Statistics\n\n';
             
@@ -231,10 +337,22 @@ export class GameCommands implements vscode.Disposable {
             
             if (isActive) {
                 statsMessage += `Remaining Time: ${remainingTime} seconds\n`;
-                statsMessage += `Session Duration: ${Math.floor(sessionDuration / 60)}:${(sessionDuration % 60).toString().padStart(2, '0')}\n`;
+                statsMessage += `Session Duration: ${this.formatDuration(sessionDuration)}\n`;
             }
             
-            statsMessage += `Violations This Session: ${violationCount}\n\n`;
+            statsMessage += `Violations This Session: ${violationCount}\n`;
+            if (isActive) {
+                statsMessage += `Score: ${this.scoreKeeper.getScore()} (x${this.scoreKeeper.getMultiplier()})\n`;
+            }
+            statsMessage += `\n`;
+
+            // Lifetime totals
+            statsMessage += '🏆 Lifetime Totals:\n';
+            statsMessage += `• Sessions Played: ${lifetimeStats.sessionsPlayed}\n`;
+            statsMessage += `• Total Game Time: ${this.formatDuration(Math.round(lifetimeStats.totalGameTime / 1000))}\n`;
+            statsMessage += `• Total Violations: ${lifetimeStats.totalViolations}\n`;
+            statsMessage += `• Current Streak: ${lifetimeStats.currentStreak} clean red lights\n`;
+            statsMessage += `• Best Streak: ${lifetimeStats.bestStreak} clean red lights\n\n`;
             
             // Current settings
             statsMessage += '⚙️ Current Settings:\n';
@@ -252,6 +370,46 @@ export class GameCommands implements vscode.Disposable {
         }
     }
 
+    /**
+     * Exports the session history as JSONL or CSV
+     */
+    public async exportHistory(): Promise<void> {
+        try {
+            const formatChoice = await vscode.window.showQuickPick([
+                { label: 'JSON Lines', description: 'One session per line (.jsonl)', value: HistoryExportFormat.Jsonl },
+                { label: 'CSV', description: 'One row per phase transition or violation (.csv)', value: HistoryExportFormat.Csv }
+            ], {
+                placeHolder: 'Select an export format'
+            });
+
+            if (!formatChoice) {
+                return;
+            }
+
+            const targetUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`red-light-green-light-history.${formatChoice.value}`),
+                filters: formatChoice.value === HistoryExportFormat.Csv
+                    ? { 'CSV': ['csv'] }
+                    : { 'JSON Lines': ['jsonl'] }
+            });
+
+            if (!targetUri) {
+                return;
+            }
+
+            const content = await this.sessionHistory.export(formatChoice.value);
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(content, 'utf8'));
+
+            await vscode.window.showInformationMessage(`Session history exported to ${targetUri.fsPath}`);
+
+        } catch (error) {
+            console.error('Error exporting session history:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to export session history: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
     /**
      * Tests different action types (for development and debugging)
      */
@@ -259,7 +417,7 @@ export class GameCommands implements vscode.Disposable {
         try {
             const actionChoice = await vscode.window.showQuickPick([
                 { label: 'Test Warning Action', description: 'Shows a warning message', value: 'warn' },
-                { label: 'Test Block Action', description: 'Shows blocking dialog', value: 'block' },
+                { label: 'Test Revert Action', description: 'Shows the revert notice (no edit to undo)', value: 'revert' },
                 { label: 'Test Close Action', description: 'WARNING: Will attempt to close IDE', value: 'close' }
             ], {
                 placeHolder: 'Select an action to test'
@@ -309,6 +467,22 @@ export class GameCommands implements vscode.Disposable {
         };
     }
 
+    /**
+     * Formats a duration for display
+     * @param totalSeconds Duration in seconds
+     * @returns Duration as h:mm:ss or m:ss
+     */
+    private formatDuration(totalSeconds: number): string {
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+        if (hours > 0) {
+            return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`;
+        }
+        return `${minutes}:${seconds}`;
+    }
+
     /**
      * Formats game state for display
      * @param state Game state
@@ -322,6 +496,10 @@ export class GameCommands implements vscode.Disposable {
                 return '🔴 Red Light';
             case GameState.GreenLight:
                 return '🟢 Green Light';
+            case GameState.YellowLight:
+                return '🟡 Yellow Light';
+            case GameState.Paused:
+                return '⏸️ Paused';
             default:
                 return 'Unknown';
         }
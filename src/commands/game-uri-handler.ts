@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings-manager';
+import { ExtensionSettings } from '../types/settings-types';
+import { GameCommands } from './game-commands';
+
+/**
+ * Red light actions a link may choose. `close` is left out so that a link
+ * cannot quit the editor.
+ */
+const LINK_ACTIONS: readonly ExtensionSettings['redLightAction'][] = ['warn', 'revert'];
+
+/**
+ * Timing modes a link may choose
+ */
+const LINK_MODES = ['fixed', 'random'] as const;
+
+/**
+ * Session settings read from a start link
+ */
+export interface StartParameters {
+    readonly overrides: Partial<ExtensionSettings>;
+    /** Problems with parameters, e.g. unknown names or values that are not numbers */
+    readonly errors: readonly string[];
+}
+
+/**
+ * Parses the query of a start link into settings overrides.
+ *
+ * Supported parameters are `green`, `red` and `yellow` (seconds; `yellow=0`
+ * turns the yellow light off), `mode` (`fixed` or `random`), `min` and `max`
+ * (random timing range in seconds) and `action` (`warn` or `revert`). Timing
+ * parameters turn off the phase schedule for the session, since a schedule
+ * would otherwise take precedence.
+ * @param query Query string of the link
+ * @param settings Current settings that object overrides are merged over
+ * @returns Overrides and problems
+ */
+export function parseStartParameters(query: string, settings: ExtensionSettings): StartParameters {
+    const overrides: { -readonly [K in keyof ExtensionSettings]?: ExtensionSettings[K] } = {};
+    const errors: string[] = [];
+    let randomTiming = settings.randomTiming;
+    let timingChanged = false;
+
+    const readSeconds = (name: string, value: string): number | undefined => {
+        const seconds = Number(value);
+        if (value.trim() === '' || !Number.isFinite(seconds)) {
+            errors.push(`"${name}" must be a number of seconds, not "${value}"`);
+            return undefined;
+        }
+        timingChanged = true;
+        return seconds;
+    };
+
+    for (const [name, value] of new URLSearchParams(query)) {
+        switch (name) {
+            case 'green':
+                overrides.greenLightDuration = readSeconds(name, value);
+                break;
+            case 'red':
+                overrides.redLightDuration = readSeconds(name, value);
+                break;
+            case 'yellow': {
+                const seconds = readSeconds(name, value);
+                if (seconds !== undefined) {
+                    overrides.enableYellowLight = seconds > 0;
+                    if (seconds > 0) {
+                        overrides.yellowLightDuration = seconds;
+                    }
+                }
+                break;
+            }
+            case 'min':
+            case 'max': {
+                const seconds = readSeconds(name, value);
+                if (seconds !== undefined) {
+                    randomTiming = name === 'min'
+                        ? { ...randomTiming, minTime: seconds }
+                        : { ...randomTiming, maxTime: seconds };
+                    overrides.randomTiming = randomTiming;
+                }
+                break;
+            }
+            case 'mode':
+                if (!(LINK_MODES as readonly string[]).includes(value)) {
+                    errors.push(`"mode" must be one of ${LINK_MODES.join(', ')}, not "${value}"`);
+                    break;
+                }
+                overrides.useRandomTiming = value === 'random';
+                timingChanged = true;
+                break;
+            case 'action':
+                if (!(LINK_ACTIONS as readonly string[]).includes(value)) {
+                    errors.push(`"action" must be one of ${LINK_ACTIONS.join(', ')}, not "${value}"`);
+                    break;
+                }
+                overrides.redLightAction = value as ExtensionSettings['redLightAction'];
+                break;
+            default:
+                errors.push(`unknown parameter "${name}"`);
+        }
+    }
+
+    // Drop timing keys whose values failed to parse
+    for (const key of Object.keys(overrides) as Array<keyof ExtensionSettings>) {
+        if (overrides[key] === undefined) {
+            delete overrides[key];
+        }
+    }
+
+    if (timingChanged && settings.schedule.enabled) {
+        overrides.schedule = { ...settings.schedule, enabled: false };
+    }
+
+    return { overrides, errors };
+}
+
+/**
+ * Handles `vscode://redlight-greenlight.red-light-green-light/...` links.
+ *
+ * Routes are `/start` (with optional parameters, see {@link parseStartParameters}),
+ * `/stop`, `/pause` and `/resume`. Parameters of `/start` apply to that session only.
+ */
+export class GameUriHandler implements vscode.UriHandler {
+    private gameCommands: GameCommands;
+    private settingsManager: SettingsManager;
+
+    /**
+     * Creates a new GameUriHandler instance
+     * @param gameCommands Game commands the routes map onto
+     * @param settingsManager Settings manager instance
+     */
+    constructor(gameCommands: GameCommands, settingsManager: SettingsManager) {
+        this.gameCommands = gameCommands;
+        this.settingsManager = settingsManager;
+    }
+
+    /**
+     * Handles a link opened for this extension
+     * @param uri Opened link
+     */
+    public async handleUri(uri: vscode.Uri): Promise<void> {
+        const route = uri.path.replace(/\/+$/, '').toLowerCase();
+
+        try {
+            switch (route) {
+                case '/start':
+                    await this.start(uri.query);
+                    break;
+                case '/stop':
+                    await this.gameCommands.stopGame();
+                    break;
+                case '/pause':
+                    await this.gameCommands.pauseGame();
+                    break;
+                case '/resume':
+                    await this.gameCommands.resumeGame();
+                    break;
+                default:
+                    await vscode.window.showErrorMessage(
+                        `Unknown Red Light Green Light link "${uri.path}". Use /start, /stop, /pause or /resume.`
+                    );
+            }
+        } catch (error) {
+            console.error('Error handling link:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to handle link: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Starts a session with the settings given in a link
+     * @param query Query string of the link
+     */
+    private async start(query: string): Promise<void> {
+        const settings = this.settingsManager.getSettings();
+        const parameters = parseStartParameters(query, settings);
+        const validation = this.settingsManager.validateSettingsObject({ ...settings, ...parameters.overrides });
+        const errors = [...parameters.errors, ...validation.errors];
+
+        if (errors.length > 0) {
+            await vscode.window.showErrorMessage(`Cannot start game from link:\n${errors.join('\n')}`);
+            return;
+        }
+
+        await this.gameCommands.startGame(parameters.overrides);
+    }
+}
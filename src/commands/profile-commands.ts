@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings-manager';
+import { formatProfileSummary, isBuiltInProfile, parseProfiles, serializeProfiles } from '../config/profiles';
+
+/**
+ * Implements the difficulty profile commands for the Red Light Green Light extension
+ */
+export class ProfileCommands implements vscode.Disposable {
+    private settingsManager: SettingsManager;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new ProfileCommands instance
+     * @param settingsManager Settings manager instance
+     */
+    constructor(settingsManager: SettingsManager) {
+        this.settingsManager = settingsManager;
+    }
+
+    /**
+     * Registers all profile commands
+     * @param context Extension context
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const commands: [string, () => Promise<void>][] = [
+            ['redLightGreenLight.switchProfile', this.switchProfile],
+            ['redLightGreenLight.saveProfile', this.saveProfile],
+            ['redLightGreenLight.deleteProfile', this.deleteProfile],
+            ['redLightGreenLight.importProfiles', this.importProfiles],
+            ['redLightGreenLight.exportProfiles', this.exportProfiles]
+        ];
+
+        for (const [command, handler] of commands) {
+            const disposable = vscode.commands.registerCommand(command, handler.bind(this));
+            context.subscriptions.push(disposable);
+            this.disposables.push(disposable);
+        }
+    }
+
+    /**
+     * Lets the user pick a profile and applies it
+     */
+    public async switchProfile(): Promise<void> {
+        try {
+            const activeProfile = this.settingsManager.getSetting('activeProfile');
+            const saveItem = { label: '$(save) Save Current Settings as Profile...', name: undefined };
+            const profileItems = this.settingsManager.getProfiles().map(profile => ({
+                label: profile.name === activeProfile ? `$(check) ${profile.name}` : profile.name,
+                description: isBuiltInProfile(profile.name) ? 'Built-in' : 'Saved',
+                detail: formatProfileSummary(profile),
+                name: profile.name as string | undefined
+            }));
+
+            const choice = await vscode.window.showQuickPick([...profileItems, saveItem], {
+                placeHolder: `Select a difficulty profile (current: ${this.settingsManager.getActiveProfileLabel()})`
+            });
+
+            if (!choice) {
+                return;
+            }
+
+            if (choice.name === undefined) {
+                await this.saveProfile();
+                return;
+            }
+
+            const overriddenKeys = await this.settingsManager.applyProfile(choice.name);
+            vscode.window.setStatusBarMessage(`Red Light Green Light profile: ${choice.name}`, 3000);
+
+            if (overriddenKeys.length > 0) {
+                await vscode.window.showWarningMessage(
+                    `Profile "${choice.name}" is applied to user settings, but these settings keep their ` +
+                    `workspace or team config values: ${overriddenKeys.join(', ')}`
+                );
+            }
+
+        } catch (error) {
+            console.error('Error switching profile:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to switch profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Saves the current settings as a named profile
+     */
+    public async saveProfile(): Promise<void> {
+        try {
+            const savedNames = this.settingsManager.getSetting('profiles').map(profile => profile.name);
+            const name = await vscode.window.showInputBox({
+                prompt: 'Name for the profile (an existing saved profile with this name is replaced)',
+                placeHolder: 'e.g. Pairing',
+                validateInput: value => {
+                    const trimmed = value.trim();
+                    if (trimmed.length === 0) {
+                        return 'Enter a profile name';
+                    }
+                    if (isBuiltInProfile(trimmed)) {
+                        return `"${trimmed}" is a built-in profile`;
+                    }
+                    return undefined;
+                }
+            });
+
+            if (name === undefined) {
+                return;
+            }
+
+            const trimmed = name.trim();
+            await this.settingsManager.saveProfile(trimmed);
+            await vscode.window.showInformationMessage(
+                savedNames.includes(trimmed) ? `Profile "${trimmed}" updated.` : `Profile "${trimmed}" saved.`
+            );
+
+        } catch (error) {
+            console.error('Error saving profile:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to save profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Deletes a saved profile
+     */
+    public async deleteProfile(): Promise<void> {
+        try {
+            const profiles = this.settingsManager.getSetting('profiles');
+            if (profiles.length === 0) {
+                await vscode.window.showInformationMessage('There are no saved profiles to delete.');
+                return;
+            }
+
+            const choice = await vscode.window.showQuickPick(profiles.map(profile => ({
+                label: profile.name,
+                detail: formatProfileSummary(profile)
+            })), {
+                placeHolder: 'Select a profile to delete'
+            });
+
+            if (!choice) {
+                return;
+            }
+
+            const confirmation = await vscode.window.showWarningMessage(
+                `Delete the profile "${choice.label}"?`,
+                'Delete',
+                'Cancel'
+            );
+
+            if (confirmation === 'Delete') {
+                await this.settingsManager.deleteProfile(choice.label);
+            }
+
+        } catch (error) {
+            console.error('Error deleting profile:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to delete profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Imports profiles from a JSON file
+     */
+    public async importProfiles(): Promise<void> {
+        try {
+            const fileUris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'JSON': ['json'] },
+                openLabel: 'Import Profiles'
+            });
+
+            if (!fileUris || fileUris.length === 0) {
+                return;
+            }
+
+            const content = await vscode.workspace.fs.readFile(fileUris[0]);
+            const profiles = parseProfiles(Buffer.from(content).toString('utf8'));
+            const warnings = await this.settingsManager.saveProfiles(profiles);
+
+            await vscode.window.showInformationMessage(
+                `Imported ${profiles.length} profile${profiles.length === 1 ? '' : 's'}: ${profiles.map(profile => profile.name).join(', ')}`
+            );
+            if (warnings.length > 0) {
+                await vscode.window.showWarningMessage(warnings.join('\n'));
+            }
+
+        } catch (error) {
+            console.error('Error importing profiles:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to import profiles: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Exports the saved profiles to a JSON file
+     */
+    public async exportProfiles(): Promise<void> {
+        try {
+            const profiles = this.settingsManager.getSetting('profiles');
+            if (profiles.length === 0) {
+                await vscode.window.showInformationMessage(
+                    'There are no saved profiles to export. Save one with "Save Current Settings as Profile" first.'
+                );
+                return;
+            }
+
+            const targetUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file('red-light-green-light-profiles.json'),
+                filters: { 'JSON': ['json'] }
+            });
+
+            if (!targetUri) {
+                return;
+            }
+
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(serializeProfiles(profiles), 'utf8'));
+            await vscode.window.showInformationMessage(`Profiles exported to ${targetUri.fsPath}`);
+
+        } catch (error) {
+            console.error('Error exporting profiles:', error);
+            await vscode.window.showErrorMessage(
+                `Failed to export profiles: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Disposes of the profile commands and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
@@ -0,0 +1,217 @@
+import {
+    DEFAULT_SETTINGS,
+    ExtensionSettings,
+    PROFILE_SETTING_KEYS,
+    ProfileSettings,
+    SettingsProfile
+} from '../types/settings-types';
+import { describeType } from './team-config';
+
+/**
+ * Version written to exported profile files
+ */
+const PROFILE_FILE_VERSION = 1;
+
+/**
+ * Built-in difficulty presets, from gentle to unforgiving
+ */
+export const BUILT_IN_PROFILES: readonly SettingsProfile[] = [
+    {
+        name: 'Easy',
+        settings: {
+            redLightDuration: 3,
+            greenLightDuration: 20,
+            enableYellowLight: true,
+            yellowLightDuration: 3,
+            gracePeriod: 1,
+            useRandomTiming: false,
+            redLightAction: 'warn'
+        }
+    },
+    {
+        name: 'Normal',
+        settings: {}
+    },
+    {
+        name: 'Hard',
+        settings: {
+            redLightDuration: 8,
+            greenLightDuration: 10,
+            gracePeriod: 0.3,
+            useRandomTiming: true,
+            randomTiming: { minTime: 3, maxTime: 15 },
+            redLightAction: 'revert'
+        }
+    },
+    {
+        name: 'Nightmare',
+        settings: {
+            redLightDuration: 10,
+            greenLightDuration: 5,
+            gracePeriod: 0,
+            useRandomTiming: true,
+            randomTiming: { minTime: 2, maxTime: 12 },
+            redLightAction: 'revert',
+            penaltyLadder: { ...DEFAULT_SETTINGS.penaltyLadder, enabled: true },
+            hardMode: { ...DEFAULT_SETTINGS.hardMode, enabled: true }
+        }
+    }
+];
+
+/**
+ * Checks if a profile is one of the built-in presets
+ * @param name Profile name
+ */
+export function isBuiltInProfile(name: string): boolean {
+    return BUILT_IN_PROFILES.some(profile => profile.name === name);
+}
+
+/**
+ * Finds a profile by name; saved profiles cannot shadow the built-in presets
+ * @param name Profile name
+ * @param savedProfiles Profiles saved by the user
+ * @returns Profile, or undefined if there is none with that name
+ */
+export function findProfile(name: string, savedProfiles: readonly SettingsProfile[]): SettingsProfile | undefined {
+    return BUILT_IN_PROFILES.find(profile => profile.name === name) ??
+           savedProfiles.find(profile => profile.name === name);
+}
+
+/**
+ * Resolves every profile setting, using defaults for the ones a profile leaves out
+ * @param profile Profile
+ * @returns Complete profile settings
+ */
+export function resolveProfileSettings(profile: SettingsProfile): Required<ProfileSettings> {
+    const resolved: { [key: string]: unknown } = {};
+    for (const key of PROFILE_SETTING_KEYS) {
+        resolved[key] = profile.settings[key] ?? DEFAULT_SETTINGS[key];
+    }
+    return resolved as Required<ProfileSettings>;
+}
+
+/**
+ * Summarizes a profile in one line for pickers
+ * @param profile Profile
+ * @returns Summary such as "5s red / 10s green, 0.5s grace, warn"
+ */
+export function formatProfileSummary(profile: SettingsProfile): string {
+    const settings = resolveProfileSettings(profile);
+    const timing = settings.useRandomTiming
+        ? `random ${settings.randomTiming.minTime}-${settings.randomTiming.maxTime}s`
+        : `${settings.redLightDuration}s red / ${settings.greenLightDuration}s green`;
+    const parts = [timing, `${settings.gracePeriod}s grace`, settings.redLightAction];
+
+    if (settings.enableYellowLight) {
+        parts.push('yellow light');
+    }
+    if (settings.penaltyLadder.enabled) {
+        parts.push('penalty ladder');
+    }
+    if (settings.hardMode.enabled) {
+        parts.push('hard mode');
+    }
+
+    return parts.join(', ');
+}
+
+/**
+ * Captures the profile settings of the current settings
+ * @param name Profile name
+ * @param settings Current settings
+ * @returns New profile
+ */
+export function captureProfile(name: string, settings: ExtensionSettings): SettingsProfile {
+    const captured: { [key: string]: unknown } = {};
+    for (const key of PROFILE_SETTING_KEYS) {
+        captured[key] = settings[key];
+    }
+    return { name, settings: captured as ProfileSettings };
+}
+
+/**
+ * Checks if the current settings still match a profile
+ * @param settings Current settings
+ * @param profile Profile
+ */
+export function matchesProfile(settings: ExtensionSettings, profile: SettingsProfile): boolean {
+    const resolved = resolveProfileSettings(profile);
+    return PROFILE_SETTING_KEYS.every(key => isSameValue(settings[key], resolved[key]));
+}
+
+/**
+ * Compares setting values structurally; object key order does not matter,
+ * since VS Code may return objects with their keys reordered
+ * @param a First value
+ * @param b Second value
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return a === b;
+    }
+
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+
+    const aRecord = a as { [key: string]: unknown };
+    const bRecord = b as { [key: string]: unknown };
+    const keys = Object.keys(aRecord);
+    return keys.length === Object.keys(bRecord).length &&
+           keys.every(key => isSameValue(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Serializes profiles for export
+ * @param profiles Profiles to export
+ * @returns JSON file content
+ */
+export function serializeProfiles(profiles: readonly SettingsProfile[]): string {
+    return JSON.stringify({ version: PROFILE_FILE_VERSION, profiles }, null, 2) + '\n';
+}
+
+/**
+ * Parses an exported profiles file
+ * @param content JSON file content
+ * @returns Profiles in the file
+ * @throws Error if the file is not a valid profiles file
+ */
+export function parseProfiles(content: string): SettingsProfile[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const profiles = (data as { profiles?: unknown } | null)?.profiles;
+    if (!Array.isArray(profiles)) {
+        throw new Error('The file does not contain a profiles list');
+    }
+
+    return profiles.map((profile, index) => {
+        const name = profile?.name;
+        if (typeof name !== 'string' || name.trim().length === 0) {
+            throw new Error(`Profile ${index + 1} has no name`);
+        }
+        if (typeof profile.settings !== 'object' || profile.settings === null || Array.isArray(profile.settings)) {
+            throw new Error(`Profile "${name}" has no settings`);
+        }
+
+        // Only profile settings are imported; anything else in the file is ignored
+        const settings: { [key: string]: unknown } = {};
+        for (const key of PROFILE_SETTING_KEYS) {
+            if (!(key in profile.settings)) {
+                continue;
+            }
+
+            const value: unknown = profile.settings[key];
+            const expectedType = describeType(DEFAULT_SETTINGS[key]);
+            if (describeType(value) !== expectedType) {
+                throw new Error(`Profile "${name}": "${key}" must be ${expectedType}, not ${describeType(value)}`);
+            }
+            settings[key] = value;
+        }
+        return { name: name.trim(), settings: settings as ProfileSettings };
+    });
+}
@@ -1,6 +1,25 @@
 import * as vscode from 'vscode';
-import { ExtensionSettings, DEFAULT_SETTINGS, SettingsValidationResult } from '../types/settings-types';
-import { GameConfig, TimerConfig, RedLightAction } from '../types/game-types';
+import {
+    ChangeSourceSettings,
+    ExtensionSettings,
+    DEFAULT_SETTINGS,
+    DocumentRulesSettings,
+    HardModeSettings,
+    SettingsProfile,
+    SettingsValidationResult
+} from '../types/settings-types';
+import { GameConfig, TimerConfig, RedLightAction, PenaltyLadderConfig } from '../types/game-types';
+import { expandSchedule, MAX_SCHEDULE_REPEAT, MIN_SCHEDULED_DURATION } from '../game/phase-schedule';
+import { TeamConfig, TeamConfigListener } from './team-config';
+import {
+    BUILT_IN_PROFILES,
+    captureProfile,
+    findProfile,
+    isBuiltInProfile,
+    isSameValue,
+    matchesProfile,
+    resolveProfileSettings
+} from './profiles';
 
 /**
  * Settings change event data
@@ -24,15 +43,54 @@ export class SettingsManager implements vscode.Disposable {
     private settingsChangeListeners: SettingsChangeListener[] = [];
     private disposables: vscode.Disposable[] = [];
     private currentSettings: ExtensionSettings;
+    private sessionOverrides: Partial<ExtensionSettings> | undefined;
+    private pendingUpdates: number = 0;
+    private teamConfig: TeamConfig;
 
     /**
      * Creates a new SettingsManager instance
      */
     constructor() {
+        this.teamConfig = new TeamConfig();
         this.currentSettings = this.loadSettings();
         this.setupConfigurationChangeListener();
     }
 
+    /**
+     * Reads the team config file (`.redlight.json` or `.vscode/redlight.json`) and applies its settings
+     */
+    public async loadTeamConfig(): Promise<void> {
+        try {
+            await this.teamConfig.load();
+        } catch (error) {
+            console.error('Failed to load team config:', error);
+        }
+        this.handleConfigurationChange();
+    }
+
+    /**
+     * Gets the problems found in the team config file, such as unknown settings or invalid values
+     * @returns Problem messages naming the file
+     */
+    public getTeamConfigProblems(): string[] {
+        const fileName = this.teamConfig.getFileName();
+        if (!fileName) {
+            return [];
+        }
+
+        const teamSettings = { ...DEFAULT_SETTINGS, ...this.teamConfig.getSettings() };
+        const valueErrors = this.validateSettingsObject(teamSettings).errors.map(error => `${fileName}: ${error}`);
+        return [...this.teamConfig.getProblems(), ...valueErrors];
+    }
+
+    /**
+     * Adds a listener called whenever the team config file is reloaded
+     * @param listener Team config listener
+     */
+    public onTeamConfigChange(listener: TeamConfigListener): vscode.Disposable {
+        return this.teamConfig.onDidChange(listener);
+    }
+
     /**
      * Gets the current extension settings
      * @returns Current settings
@@ -41,6 +99,24 @@ export class SettingsManager implements vscode.Disposable {
         return { ...this.currentSettings };
     }
 
+    /**
+     * Gets the settings the current session plays with: the current settings with
+     * the session's overrides, such as those of a start link, on top
+     * @returns Session settings
+     */
+    public getSessionSettings(): ExtensionSettings {
+        return { ...this.currentSettings, ...this.sessionOverrides };
+    }
+
+    /**
+     * Sets settings that apply to the current session only. They stay on top of
+     * the settings through settings changes until cleared when the session stops.
+     * @param overrides Session settings, or undefined to clear them
+     */
+    public setSessionOverrides(overrides: Partial<ExtensionSettings> | undefined): void {
+        this.sessionOverrides = overrides ? { ...overrides } : undefined;
+    }
+
     /**
      * Gets a specific setting value
      * @param key Setting key
@@ -50,6 +126,17 @@ export class SettingsManager implements vscode.Disposable {
         return this.currentSettings[key];
     }
 
+    /**
+     * Gets the document rules that apply to a resource, including workspace folder overrides
+     * @param scope Resource the rules are resolved for
+     * @returns Document rules with defaults applied
+     */
+    public getDocumentRules(scope?: vscode.Uri): DocumentRulesSettings {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIGURATION_SECTION, scope);
+        const rules: Partial<DocumentRulesSettings> = this.getLayeredValue(config, 'documentRules');
+        return { ...DEFAULT_SETTINGS.documentRules, ...rules };
+    }
+
     /**
      * Updates a specific setting
      * @param key Setting key
@@ -66,7 +153,8 @@ export class SettingsManager implements vscode.Disposable {
     }
 
     /**
-     * Updates multiple settings at once
+     * Updates multiple settings at once. Listeners hear about the whole batch in
+     * one settings change once every setting is written.
      * @param updates Object containing setting updates
      * @param target Configuration target
      */
@@ -75,10 +163,18 @@ export class SettingsManager implements vscode.Disposable {
         target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
     ): Promise<void> {
         const config = vscode.workspace.getConfiguration(SettingsManager.CONFIGURATION_SECTION);
-        
-        // Update each setting
-        for (const [key, value] of Object.entries(updates)) {
-            await config.update(key, value, target);
+
+        this.pendingUpdates++;
+        try {
+            // Update each setting
+            for (const [key, value] of Object.entries(updates)) {
+                await config.update(key, value, target);
+            }
+        } finally {
+            this.pendingUpdates--;
+            if (this.pendingUpdates === 0) {
+                this.handleConfigurationChange();
+            }
         }
     }
 
@@ -89,7 +185,143 @@ export class SettingsManager implements vscode.Disposable {
     public async resetToDefaults(
         target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
     ): Promise<void> {
-        await this.updateSettings(DEFAULT_SETTINGS, target);
+        // Saved profiles are the user's data, not a setting to reset
+        const { profiles: _profiles, ...defaults } = DEFAULT_SETTINGS;
+        await this.updateSettings(defaults, target);
+    }
+
+    /**
+     * Gets the built-in presets followed by the profiles saved by the user
+     * @returns All profiles
+     */
+    public getProfiles(): SettingsProfile[] {
+        return [...BUILT_IN_PROFILES, ...this.currentSettings.profiles];
+    }
+
+    /**
+     * Gets the name of the active profile, marked when settings were changed since it was applied
+     * @returns Profile label, or 'Custom' if no profile is active
+     */
+    public getActiveProfileLabel(): string {
+        const profile = findProfile(this.currentSettings.activeProfile, this.currentSettings.profiles);
+        if (!profile) {
+            return 'Custom';
+        }
+
+        return matchesProfile(this.currentSettings, profile) ? profile.name : `${profile.name} (modified)`;
+    }
+
+    /**
+     * Applies a profile, setting every profile setting it leaves out to its default.
+     * Profiles are written to user settings, so workspace settings and the team
+     * config file still take precedence over them.
+     * @param name Profile name
+     * @returns Profile settings that keep a workspace or team config value instead
+     * @throws Error if there is no profile with that name or its settings are invalid
+     */
+    public async applyProfile(name: string): Promise<Array<keyof ExtensionSettings>> {
+        const profile = findProfile(name, this.currentSettings.profiles);
+        if (!profile) {
+            throw new Error(`No profile named "${name}"`);
+        }
+
+        const validation = this.validateProfile(profile);
+        if (!validation.isValid) {
+            throw new Error(`Profile "${profile.name}" has invalid settings: ${validation.errors.join('; ')}`);
+        }
+
+        const settings = resolveProfileSettings(profile);
+        await this.updateSettings({ ...settings, activeProfile: profile.name });
+        return this.getOverriddenKeys(Object.keys(settings) as Array<keyof ExtensionSettings>);
+    }
+
+    /**
+     * Finds settings whose user value is overridden by a workspace setting or the team config file
+     * @param keys Setting keys to check
+     * @returns Keys set at a narrower scope
+     */
+    private getOverriddenKeys(keys: Array<keyof ExtensionSettings>): Array<keyof ExtensionSettings> {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIGURATION_SECTION);
+        const teamSettings = this.teamConfig.getSettings();
+
+        return keys.filter(key => {
+            const inspected = config.inspect(key);
+            return inspected?.workspaceFolderValue !== undefined ||
+                   inspected?.workspaceValue !== undefined ||
+                   teamSettings[key] !== undefined;
+        });
+    }
+
+    /**
+     * Saves the current settings as a named profile, replacing a saved profile with the same name
+     * @param name Profile name
+     * @throws Error if the name belongs to a built-in preset
+     */
+    public async saveProfile(name: string): Promise<void> {
+        const profile = captureProfile(name, this.currentSettings);
+        await this.saveProfiles([profile]);
+        await this.updateSetting('activeProfile', profile.name);
+    }
+
+    /**
+     * Adds profiles to the saved profiles, replacing saved profiles with the same names
+     * @param profiles Profiles to save
+     * @returns Warnings about the saved profiles' settings, such as the close action
+     * @throws Error if a profile uses the name of a built-in preset or has invalid settings
+     */
+    public async saveProfiles(profiles: readonly SettingsProfile[]): Promise<string[]> {
+        const builtIn = profiles.find(profile => isBuiltInProfile(profile.name));
+        if (builtIn) {
+            throw new Error(`"${builtIn.name}" is a built-in profile and cannot be replaced`);
+        }
+
+        const warnings: string[] = [];
+        for (const profile of profiles) {
+            const validation = this.validateProfile(profile);
+            if (!validation.isValid) {
+                throw new Error(`Profile "${profile.name}" has invalid settings: ${validation.errors.join('; ')}`);
+            }
+            warnings.push(...validation.warnings.map(warning => `Profile "${profile.name}": ${warning}`));
+        }
+
+        const names = new Set(profiles.map(profile => profile.name));
+        const kept = this.currentSettings.profiles.filter(profile => !names.has(profile.name));
+        await this.updateSetting('profiles', [...kept, ...profiles]);
+        return warnings;
+    }
+
+    /**
+     * Validates the settings a profile would apply over the current settings
+     * @param profile Profile to validate
+     * @returns Validation result with only the problems that come from the profile
+     */
+    public validateProfile(profile: SettingsProfile): SettingsValidationResult {
+        // Problems in settings a profile does not set are reported with the settings themselves
+        const baseline = this.validateSettingsObject({
+            ...this.currentSettings,
+            ...resolveProfileSettings({ name: '', settings: {} })
+        });
+        const applied = this.validateSettingsObject({ ...this.currentSettings, ...resolveProfileSettings(profile) });
+
+        const errors = applied.errors.filter(error => !baseline.errors.includes(error));
+        return {
+            isValid: errors.length === 0,
+            errors,
+            warnings: applied.warnings.filter(warning => !baseline.warnings.includes(warning))
+        };
+    }
+
+    /**
+     * Deletes a saved profile
+     * @param name Profile name
+     */
+    public async deleteProfile(name: string): Promise<void> {
+        const profiles = this.currentSettings.profiles.filter(profile => profile.name !== name);
+        await this.updateSetting('profiles', profiles);
+
+        if (this.currentSettings.activeProfile === name) {
+            await this.updateSetting('activeProfile', '');
+        }
     }
 
     /**
@@ -97,7 +329,20 @@ export class SettingsManager implements vscode.Disposable {
      * @returns Validation result
      */
     public validateSettings(): SettingsValidationResult {
-        return this.validateSettingsObject(this.currentSettings);
+        const result = this.validateSettingsObject(this.currentSettings);
+        const fileName = this.teamConfig.getFileName();
+        if (!fileName) {
+            return result;
+        }
+
+        // Point invalid values that come from the team config file at that file
+        const teamSettings = { ...DEFAULT_SETTINGS, ...this.teamConfig.getSettings() };
+        const teamErrors = new Set(this.validateSettingsObject(teamSettings).errors);
+        return {
+            isValid: result.isValid,
+            errors: result.errors.map(error => teamErrors.has(error) ? `${fileName}: ${error}` : error),
+            warnings: [...this.teamConfig.getProblems(), ...result.warnings]
+        };
     }
 
     /**
@@ -118,6 +363,10 @@ export class SettingsManager implements vscode.Disposable {
             errors.push('Green light duration must be between 1 and 60 seconds');
         }
 
+        if (settings.enableYellowLight && (settings.yellowLightDuration < 1 || settings.yellowLightDuration > 10)) {
+            errors.push('Yellow light duration must be between 1 and 10 seconds');
+        }
+
         if (settings.useRandomTiming) {
             if (settings.randomTiming.minTime < 1 || settings.randomTiming.minTime > 60) {
                 errors.push('Minimum random time must be between 1 and 60 seconds');
@@ -132,12 +381,48 @@ export class SettingsManager implements vscode.Disposable {
             }
         }
 
+        // Validate phase schedule
+        if (settings.schedule.enabled) {
+            this.validateSchedule(settings, errors, warnings);
+        }
+
         // Validate action setting
-        const validActions: RedLightAction[] = [RedLightAction.Close, RedLightAction.Warn];
+        const validActions: RedLightAction[] = [RedLightAction.Close, RedLightAction.Warn, RedLightAction.Revert];
         if (!validActions.includes(settings.redLightAction as RedLightAction)) {
             errors.push(`Invalid red light action: ${settings.redLightAction}`);
         }
 
+        // Validate penalty ladder
+        if (settings.penaltyLadder.enabled) {
+            this.validatePenaltyLadder(settings, errors);
+        }
+
+        // Validate document rules
+        if (settings.documentRules.schemes.length === 0) {
+            warnings.push('No URI schemes are monitored, so red light will never be enforced');
+        }
+
+        // Validate hard mode
+        if (settings.hardMode.enabled &&
+            !settings.hardMode.selection && !settings.hardMode.scroll && !settings.hardMode.editorSwitch) {
+            warnings.push('Hard mode is enabled but every movement kind is switched off');
+        }
+
+        // Validate scoring
+        const scoringValues = Object.values(settings.scoring);
+        if (scoringValues.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            errors.push('Scoring values must be numbers that are not negative');
+        }
+
+        if (settings.scoring.maxMultiplier < 1) {
+            errors.push('Maximum score multiplier must be at least 1');
+        }
+
+        // Validate change sources
+        if (!settings.changeSources.typed) {
+            warnings.push('Typed changes do not count as violations, so typing during red light is allowed');
+        }
+
         // Validate sound settings
         if (settings.enableSounds) {
             if (settings.soundSettings.volume < 0 || settings.soundSettings.volume > 1) {
@@ -150,6 +435,10 @@ export class SettingsManager implements vscode.Disposable {
             warnings.push('Close action will terminate VSCode when typing during red light');
         }
 
+        if (settings.penaltyLadder.enabled && settings.penaltyLadder.steps.some(step => step.action === 'close')) {
+            warnings.push('Penalty ladder includes a close step that will terminate VSCode');
+        }
+
         if (settings.redLightDuration < 3) {
             warnings.push('Very short red light duration may be difficult to react to');
         }
@@ -165,25 +454,143 @@ export class SettingsManager implements vscode.Disposable {
         };
     }
 
+    /**
+     * Validates the penalty ladder steps
+     * @param settings Settings to validate
+     * @param errors Error list to append to
+     */
+    private validatePenaltyLadder(settings: ExtensionSettings, errors: string[]): void {
+        const ladder = settings.penaltyLadder;
+        const validActions: string[] = [
+            RedLightAction.Warn,
+            RedLightAction.Revert,
+            RedLightAction.Lock,
+            RedLightAction.EndSession,
+            RedLightAction.Close
+        ];
+
+        if (ladder.windowSeconds < 0) {
+            errors.push('Penalty ladder window must be 0 (whole session) or a positive number of seconds');
+        }
+
+        if (ladder.steps.length === 0) {
+            errors.push('Penalty ladder must have at least one step when enabled');
+        }
+
+        let previousViolations = 0;
+        ladder.steps.forEach((step, index) => {
+            const label = `Penalty ladder step ${index + 1}`;
+
+            if (!Number.isInteger(step.violations) || step.violations < 1) {
+                errors.push(`${label}: violations must be a whole number of at least 1`);
+            } else if (step.violations <= previousViolations) {
+                errors.push(`${label}: violations must be greater than the previous step`);
+            } else {
+                previousViolations = step.violations;
+            }
+
+            if (!validActions.includes(step.action)) {
+                errors.push(`${label}: invalid action ${step.action}`);
+            }
+
+            if (step.action === RedLightAction.Lock &&
+                (step.lockDuration === undefined || step.lockDuration < 1 || step.lockDuration > 300)) {
+                errors.push(`${label}: lock duration must be between 1 and 300 seconds`);
+            }
+        });
+    }
+
+    /**
+     * Validates the phase schedule blocks
+     * @param settings Settings to validate
+     * @param errors Error list to append to
+     * @param warnings Warning list to append to
+     */
+    private validateSchedule(settings: ExtensionSettings, errors: string[], warnings: string[]): void {
+        const blocks = settings.schedule.blocks;
+        const errorCount = errors.length;
+
+        if (blocks.length === 0) {
+            errors.push('Phase schedule must have at least one block when enabled');
+            return;
+        }
+
+        let clamped = false;
+        blocks.forEach((block, blockIndex) => {
+            const label = `Phase schedule block ${blockIndex + 1}`;
+            const repeat = block.repeat ?? 1;
+
+            if (!Number.isInteger(repeat) || repeat < 1 || repeat > MAX_SCHEDULE_REPEAT) {
+                errors.push(`${label}: repeat must be a whole number between 1 and ${MAX_SCHEDULE_REPEAT}`);
+            }
+
+            if (block.phases.length === 0) {
+                errors.push(`${label}: must have at least one phase`);
+            }
+
+            block.phases.forEach((phase, phaseIndex) => {
+                const phaseLabel = `${label}, phase ${phaseIndex + 1}`;
+
+                if (phase.light !== 'green' && phase.light !== 'red') {
+                    errors.push(`${phaseLabel}: light must be "green" or "red"`);
+                }
+
+                if (typeof phase.duration !== 'number' || phase.duration < 1 || phase.duration > 3600) {
+                    errors.push(`${phaseLabel}: duration must be between 1 and 3600 seconds`);
+                }
+
+                if (phase.step !== undefined && typeof phase.step !== 'number') {
+                    errors.push(`${phaseLabel}: step must be a number of seconds`);
+                } else if (phase.step && Number.isInteger(repeat) && repeat > 1 &&
+                    phase.duration + phase.step * (repeat - 1) < MIN_SCHEDULED_DURATION) {
+                    clamped = true;
+                }
+            });
+        });
+
+        if (clamped) {
+            warnings.push(`Phase schedule ramp goes below ${MIN_SCHEDULED_DURATION} second; those phases are clamped`);
+        }
+
+        if (errors.length === errorCount && expandSchedule(blocks).length > 1000) {
+            errors.push('Phase schedule must not expand to more than 1000 phases');
+        }
+    }
+
     /**
      * Converts extension settings to game config
-     * @param settings Extension settings (optional, uses current if not provided)
+     * @param settings Extension settings (optional, uses the session settings if not provided)
      * @returns Game configuration
      */
     public toGameConfig(settings?: ExtensionSettings): GameConfig {
-        const currentSettings = settings || this.currentSettings;
+        const currentSettings = settings || this.getSessionSettings();
         
+        const penaltyLadder: PenaltyLadderConfig = {
+            enabled: currentSettings.penaltyLadder.enabled,
+            windowSeconds: currentSettings.penaltyLadder.windowSeconds,
+            steps: currentSettings.penaltyLadder.steps.map(step => ({
+                violations: step.violations,
+                action: this.parseRedLightAction(step.action),
+                lockDuration: step.lockDuration
+            }))
+        };
+
         const timerConfig: TimerConfig = {
             redLightDuration: currentSettings.redLightDuration,
             greenLightDuration: currentSettings.greenLightDuration,
+            yellowLightDuration: currentSettings.enableYellowLight ? currentSettings.yellowLightDuration : 0,
             useRandomTiming: currentSettings.useRandomTiming,
             maxRandomTime: currentSettings.randomTiming.maxTime,
-            minRandomTime: currentSettings.randomTiming.minTime
+            minRandomTime: currentSettings.randomTiming.minTime,
+            randomSeed: currentSettings.randomSeed,
+            schedule: currentSettings.schedule.enabled ? expandSchedule(currentSettings.schedule.blocks) : [],
+            loopSchedule: currentSettings.schedule.loop
         };
 
         return {
             timerConfig,
             redLightAction: this.parseRedLightAction(currentSettings.redLightAction),
+            penaltyLadder,
             gracePeriod: currentSettings.gracePeriod,
             showTimer: currentSettings.showTimer,
             enableSounds: currentSettings.enableSounds
@@ -214,17 +621,36 @@ export class SettingsManager implements vscode.Disposable {
         const settings = this.currentSettings;
         
         return {
+            'Profile': this.getActiveProfileLabel(),
+            'Team Config': this.teamConfig.getFileName() ?? 'None',
             'Red Light Duration': `${settings.redLightDuration} seconds`,
             'Green Light Duration': `${settings.greenLightDuration} seconds`,
+            'Yellow Light': settings.enableYellowLight ? `${settings.yellowLightDuration} seconds` : 'Disabled',
             'Grace Period': `${settings.gracePeriod} seconds`,
             'Show Timer': settings.showTimer ? 'Enabled' : 'Disabled',
             'Random Timing': settings.useRandomTiming ? 'Enabled' : 'Disabled',
             'Random Range': settings.useRandomTiming 
                 ? `${settings.randomTiming.minTime}-${settings.randomTiming.maxTime} seconds`
                 : 'N/A',
+            'Random Seed': settings.useRandomTiming && settings.randomSeed ? settings.randomSeed : 'N/A',
+            'Phase Schedule': settings.schedule.enabled
+                ? `${expandSchedule(settings.schedule.blocks).length} phases${settings.schedule.loop ? ', looping' : ''}`
+                : 'Disabled',
             'Red Light Action': this.formatActionForDisplay(settings.redLightAction),
+            'Penalty Ladder': settings.penaltyLadder.enabled
+                ? settings.penaltyLadder.steps.map(step => `${step.violations}: ${this.formatActionForDisplay(step.action)}`).join(', ')
+                : 'Disabled',
+            'Monitored Documents': this.formatDocumentRulesForDisplay(settings.documentRules),
+            'Terminal Monitoring': settings.monitorTerminal ? 'Enabled' : 'Disabled',
+            'Deferred Saves': settings.deferSaves ? 'Enabled' : 'Disabled',
+            'Block Typing': settings.blockTyping ? 'Enabled' : 'Disabled',
+            'Counted Changes': this.formatChangeSourcesForDisplay(settings.changeSources),
+            'Scoring': `${settings.scoring.pointsPerCharacter} per character, up to x${settings.scoring.maxMultiplier}, ` +
+                `-${settings.scoring.violationPenalty} per violation`,
+            'Hard Mode': this.formatHardModeForDisplay(settings.hardMode),
             'Sound Effects': settings.enableSounds ? 'Enabled' : 'Disabled',
-            'Sound Volume': settings.enableSounds ? `${Math.round(settings.soundSettings.volume * 100)}%` : 'N/A'
+            'Sound Volume': settings.enableSounds ? `${Math.round(settings.soundSettings.volume * 100)}%` : 'N/A',
+            'Visual Feedback': settings.enableVisualFeedback ? 'Enabled' : 'Disabled'
         };
     }
 
@@ -236,29 +662,70 @@ export class SettingsManager implements vscode.Disposable {
         const config = vscode.workspace.getConfiguration(SettingsManager.CONFIGURATION_SECTION);
         
         return {
-            redLightDuration: config.get('redLightDuration', DEFAULT_SETTINGS.redLightDuration),
-            greenLightDuration: config.get('greenLightDuration', DEFAULT_SETTINGS.greenLightDuration),
-            gracePeriod: config.get('gracePeriod', DEFAULT_SETTINGS.gracePeriod),
-            showTimer: config.get('showTimer', DEFAULT_SETTINGS.showTimer),
-            useRandomTiming: config.get('useRandomTiming', DEFAULT_SETTINGS.useRandomTiming),
-            randomTiming: config.get('randomTiming', DEFAULT_SETTINGS.randomTiming),
-            redLightAction: config.get('redLightAction', DEFAULT_SETTINGS.redLightAction),
-            enableSounds: config.get('enableSounds', DEFAULT_SETTINGS.enableSounds),
-            soundSettings: config.get('soundSettings', DEFAULT_SETTINGS.soundSettings)
+            redLightDuration: this.getLayeredValue(config, 'redLightDuration'),
+            greenLightDuration: this.getLayeredValue(config, 'greenLightDuration'),
+            enableYellowLight: this.getLayeredValue(config, 'enableYellowLight'),
+            yellowLightDuration: this.getLayeredValue(config, 'yellowLightDuration'),
+            gracePeriod: this.getLayeredValue(config, 'gracePeriod'),
+            showTimer: this.getLayeredValue(config, 'showTimer'),
+            useRandomTiming: this.getLayeredValue(config, 'useRandomTiming'),
+            randomTiming: this.getLayeredValue(config, 'randomTiming'),
+            randomSeed: this.getLayeredValue(config, 'randomSeed'),
+            schedule: this.getLayeredValue(config, 'schedule'),
+            redLightAction: this.getLayeredValue(config, 'redLightAction'),
+            penaltyLadder: this.getLayeredValue(config, 'penaltyLadder'),
+            documentRules: { ...DEFAULT_SETTINGS.documentRules, ...this.getLayeredValue(config, 'documentRules') },
+            monitorTerminal: this.getLayeredValue(config, 'monitorTerminal'),
+            deferSaves: this.getLayeredValue(config, 'deferSaves'),
+            blockTyping: this.getLayeredValue(config, 'blockTyping'),
+            changeSources: { ...DEFAULT_SETTINGS.changeSources, ...this.getLayeredValue(config, 'changeSources') },
+            scoring: { ...DEFAULT_SETTINGS.scoring, ...this.getLayeredValue(config, 'scoring') },
+            hardMode: { ...DEFAULT_SETTINGS.hardMode, ...this.getLayeredValue(config, 'hardMode') },
+            profiles: this.getLayeredValue(config, 'profiles'),
+            activeProfile: this.getLayeredValue(config, 'activeProfile'),
+            enableSounds: this.getLayeredValue(config, 'enableSounds'),
+            soundSettings: this.getLayeredValue(config, 'soundSettings'),
+            enableVisualFeedback: this.getLayeredValue(config, 'enableVisualFeedback'),
+            visualSettings: this.getLayeredValue(config, 'visualSettings')
         };
     }
 
+    /**
+     * Gets a setting value, layering the team config file between user and workspace settings
+     * @param config Extension configuration
+     * @param key Setting key
+     * @returns Workspace value if set, otherwise the team config value, otherwise the user value or default
+     */
+    private getLayeredValue<K extends keyof ExtensionSettings>(
+        config: vscode.WorkspaceConfiguration,
+        key: K
+    ): ExtensionSettings[K] {
+        const inspected = config.inspect<ExtensionSettings[K]>(key);
+        const workspaceValue = inspected?.workspaceFolderValue ?? inspected?.workspaceValue;
+        const teamValue = this.teamConfig.getSettings()[key];
+
+        if (workspaceValue === undefined && teamValue !== undefined) {
+            return teamValue as ExtensionSettings[K];
+        }
+        return config.get(key, DEFAULT_SETTINGS[key]);
+    }
+
     /**
      * Sets up configuration change listener
      */
     private setupConfigurationChangeListener(): void {
         const changeDisposable = vscode.workspace.onDidChangeConfiguration(event => {
-            if (event.affectsConfiguration(SettingsManager.CONFIGURATION_SECTION)) {
+            // Batched updates report their changes together once written
+            if (event.affectsConfiguration(SettingsManager.CONFIGURATION_SECTION) && this.pendingUpdates === 0) {
                 this.handleConfigurationChange();
             }
         });
         
         this.disposables.push(changeDisposable);
+
+        // Edits to the team config file apply like settings changes
+        const teamConfigDisposable = this.teamConfig.onDidChange(() => this.handleConfigurationChange());
+        this.disposables.push(teamConfigDisposable);
     }
 
     /**
@@ -268,10 +735,10 @@ export class SettingsManager implements vscode.Disposable {
         const previousSettings = { ...this.currentSettings };
         const newSettings = this.loadSettings();
         
-        // Find changed keys
+        // Find changed keys; object settings are rebuilt on every load, so compare by value
         const changedKeys: string[] = [];
         for (const key of Object.keys(newSettings) as Array<keyof ExtensionSettings>) {
-            if (previousSettings[key] !== newSettings[key]) {
+            if (!isSameValue(previousSettings[key], newSettings[key])) {
                 changedKeys.push(key);
             }
         }
@@ -314,6 +781,12 @@ export class SettingsManager implements vscode.Disposable {
                 return RedLightAction.Close;
             case 'warn':
                 return RedLightAction.Warn;
+            case 'revert':
+                return RedLightAction.Revert;
+            case 'lock':
+                return RedLightAction.Lock;
+            case 'endSession':
+                return RedLightAction.EndSession;
             default:
                 return RedLightAction.Warn;
         }
@@ -330,11 +803,73 @@ export class SettingsManager implements vscode.Disposable {
                 return 'Immediately Close IDE';
             case 'warn':
                 return 'Show Warning';
+            case 'revert':
+                return 'Revert Change';
+            case 'lock':
+                return 'Lock Typing';
+            case 'endSession':
+                return 'End Session';
             default:
                 return 'Unknown';
         }
     }
 
+    /**
+     * Formats document rules for display
+     * @param rules Document rules
+     * @returns Formatted rules summary
+     */
+    private formatDocumentRulesForDisplay(rules: DocumentRulesSettings): string {
+        const parts = [`schemes: ${rules.schemes.join(', ') || 'none'}`];
+
+        if (rules.languages.length > 0) {
+            parts.push(`languages: ${rules.languages.join(', ')}`);
+        }
+        if (rules.excludeLanguages.length > 0) {
+            parts.push(`except languages: ${rules.excludeLanguages.join(', ')}`);
+        }
+        if (rules.include.length > 0) {
+            parts.push(`include: ${rules.include.join(', ')}`);
+        }
+        if (rules.exclude.length > 0) {
+            parts.push(`exclude: ${rules.exclude.join(', ')}`);
+        }
+
+        return parts.join('; ');
+    }
+
+    /**
+     * Formats hard mode settings for display
+     * @param hardMode Hard mode settings
+     * @returns Movement kinds that count as violations
+     */
+    private formatHardModeForDisplay(hardMode: HardModeSettings): string {
+        if (!hardMode.enabled) {
+            return 'Disabled';
+        }
+
+        const kinds = [
+            hardMode.selection ? 'cursor and selection' : undefined,
+            hardMode.scroll ? 'scrolling' : undefined,
+            hardMode.editorSwitch ? 'editor switches' : undefined
+        ].filter(kind => kind !== undefined);
+
+        return kinds.length > 0 ? kinds.join(', ') : 'Enabled, no movement kinds selected';
+    }
+
+    /**
+     * Formats the change sources that count as violations for display
+     * @param changeSources Change source settings
+     * @returns Formatted string
+     */
+    private formatChangeSourcesForDisplay(changeSources: ChangeSourceSettings): string {
+        const counted = Object.entries(changeSources)
+            .filter(([, counts]) => counts)
+            .map(([source]) => source);
+
+        return counted.length > 0 ? counted.join(', ') : 'None';
+    }
+
     /**
      * Disposes of the settings manager and cleans up resources
      */
@@ -342,5 +877,6 @@ export class SettingsManager implements vscode.Disposable {
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables.length = 0;
         this.settingsChangeListeners.length = 0;
+        this.teamConfig.dispose();
     }
 }
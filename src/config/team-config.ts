@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import { DEFAULT_SETTINGS, ExtensionSettings } from '../types/settings-types';
+
+/**
+ * Team config file locations relative to the workspace root, in order of precedence
+ */
+export const TEAM_CONFIG_FILES = ['.redlight.json', '.vscode/redlight.json'] as const;
+
+/**
+ * Prefix accepted on keys copied from settings.json
+ */
+const SETTINGS_PREFIX = 'redLightGreenLight.';
+
+/**
+ * Settings read from a team config file
+ */
+export interface ParsedTeamConfig {
+    readonly settings: Partial<ExtensionSettings>;
+    /** Problems with keys that were ignored, e.g. unknown settings or wrong types */
+    readonly problems: readonly string[];
+}
+
+/**
+ * Team config listener type
+ */
+export type TeamConfigListener = () => void;
+
+/**
+ * Parses the content of a team config file.
+ *
+ * Keys are setting names without the `redLightGreenLight.` prefix (the prefix
+ * is accepted too). Object settings are merged over their defaults, so a file
+ * can set `documentRules.exclude` alone. Keys that are unknown or have the
+ * wrong type are ignored and reported.
+ * @param content File content
+ * @param fileName File name used in problem messages
+ * @returns Settings and problems
+ */
+export function parseTeamConfig(content: string, fileName: string): ParsedTeamConfig {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        return {
+            settings: {},
+            problems: [`${fileName} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+        };
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return { settings: {}, problems: [`${fileName} must contain a JSON object of settings`] };
+    }
+
+    const settings: { [key: string]: unknown } = {};
+    const problems: string[] = [];
+
+    for (const [rawKey, value] of Object.entries(data)) {
+        if (rawKey === '$schema') {
+            continue;
+        }
+
+        const key = rawKey.startsWith(SETTINGS_PREFIX) ? rawKey.substring(SETTINGS_PREFIX.length) : rawKey;
+        if (!(key in DEFAULT_SETTINGS)) {
+            problems.push(`${fileName}: unknown setting "${rawKey}" (ignored)`);
+            continue;
+        }
+
+        const defaultValue = DEFAULT_SETTINGS[key as keyof ExtensionSettings];
+        const expectedType = describeType(defaultValue);
+        if (describeType(value) !== expectedType) {
+            problems.push(`${fileName}: "${rawKey}" must be ${expectedType}, not ${describeType(value)} (ignored)`);
+            continue;
+        }
+
+        settings[key] = expectedType === 'an object'
+            ? { ...(defaultValue as object), ...(value as object) }
+            : value;
+    }
+
+    return { settings: settings as Partial<ExtensionSettings>, problems };
+}
+
+/**
+ * Describes the JSON type of a value for problem messages
+ * @param value Value
+ */
+export function describeType(value: unknown): string {
+    if (Array.isArray(value)) {
+        return 'an array';
+    }
+    if (value === null) {
+        return 'null';
+    }
+    if (typeof value === 'object') {
+        return 'an object';
+    }
+    return `a ${typeof value}`;
+}
+
+/**
+ * Discovers and watches the team config file in the workspace root.
+ *
+ * The file is only read in trusted workspaces, since it can change what
+ * happens on a violation (including closing the editor).
+ */
+export class TeamConfig implements vscode.Disposable {
+    private settings: Partial<ExtensionSettings> = {};
+    private problems: readonly string[] = [];
+    private fileName: string | undefined;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private listeners: TeamConfigListener[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new TeamConfig instance
+     */
+    constructor() {
+        this.setupListeners();
+    }
+
+    /**
+     * Gets the settings set by the team config file
+     */
+    public getSettings(): Partial<ExtensionSettings> {
+        return this.settings;
+    }
+
+    /**
+     * Gets the problems found in the team config file
+     */
+    public getProblems(): readonly string[] {
+        return this.problems;
+    }
+
+    /**
+     * Gets the name of the loaded team config file, relative to the workspace root
+     * @returns File name, or undefined if there is no team config file
+     */
+    public getFileName(): string | undefined {
+        return this.fileName;
+    }
+
+    /**
+     * Adds a listener called whenever the team config is reloaded
+     * @param listener Team config listener
+     */
+    public onDidChange(listener: TeamConfigListener): vscode.Disposable {
+        this.listeners.push(listener);
+
+        return new vscode.Disposable(() => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) {
+                this.listeners.splice(index, 1);
+            }
+        });
+    }
+
+    /**
+     * Finds and reads the team config file in the first workspace folder
+     */
+    public async load(): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        this.watch(folder);
+
+        this.settings = {};
+        this.problems = [];
+        this.fileName = undefined;
+
+        if (!folder || !vscode.workspace.isTrusted) {
+            return;
+        }
+
+        for (const fileName of TEAM_CONFIG_FILES) {
+            let content: Uint8Array;
+            try {
+                content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, fileName));
+            } catch {
+                // Not there; try the next location
+                continue;
+            }
+
+            const parsed = parseTeamConfig(Buffer.from(content).toString('utf8'), fileName);
+            this.settings = parsed.settings;
+            this.problems = parsed.problems;
+            this.fileName = fileName;
+            return;
+        }
+    }
+
+    /**
+     * Watches the team config file locations of a workspace folder
+     * @param folder Workspace folder, or undefined if no folder is open
+     */
+    private watch(folder: vscode.WorkspaceFolder | undefined): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+
+        if (!folder) {
+            return;
+        }
+
+        this.watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(folder, `{${TEAM_CONFIG_FILES.join(',')}}`)
+        );
+        this.watcher.onDidCreate(() => this.reload());
+        this.watcher.onDidChange(() => this.reload());
+        this.watcher.onDidDelete(() => this.reload());
+    }
+
+    /**
+     * Sets up listeners for workspace folder and trust changes
+     */
+    private setupListeners(): void {
+        const foldersDisposable = vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload());
+        this.disposables.push(foldersDisposable);
+
+        const trustDisposable = vscode.workspace.onDidGrantWorkspaceTrust(() => this.reload());
+        this.disposables.push(trustDisposable);
+    }
+
+    /**
+     * Reloads the team config file and notifies listeners
+     */
+    private async reload(): Promise<void> {
+        try {
+            await this.load();
+        } catch (error) {
+            console.error('Failed to load team config:', error);
+        }
+
+        this.listeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                console.error('Error in team config listener:', error);
+            }
+        });
+    }
+
+    /**
+     * Disposes of the team config and cleans up resources
+     */
+    public dispose(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+        this.listeners.length = 0;
+    }
+}
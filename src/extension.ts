@@ -2,11 +2,21 @@ import * as vscode from 'vscode';
 import { GameEngine } from './game/game-engine';
 import { SettingsManager } from './config/settings-manager';
 import { InputMonitor } from './services/input-monitor';
+import { DocumentFilter } from './services/document-filter';
 import { ActionHandler } from './services/action-handler';
+import { StatsManager } from './services/stats-manager';
+import { SessionHistory } from './services/session-history';
+import { ScoreKeeper } from './services/score-keeper';
 import { GamePanelProvider } from './views/game-panel-provider';
 import { GameCommands } from './commands/game-commands';
+import { ProfileCommands } from './commands/profile-commands';
+import { GameUriHandler } from './commands/game-uri-handler';
 import { SoundManager, SoundType } from './audio/sound-manager';
+import { VisualFeedbackManager } from './ui/visual-feedback-manager';
+import { GameContextKeys } from './ui/game-context-keys';
 import { GameState } from './types/game-types';
+import { ExtensionApi } from './api/extension-api';
+import type { RedLightGreenLightExports } from '../api/red-light-green-light';
 
 /**
  * Main extension class that coordinates all components
@@ -15,26 +25,51 @@ class RedLightGreenLightExtension {
     private gameEngine: GameEngine | undefined;
     private settingsManager: SettingsManager | undefined;
     private inputMonitor: InputMonitor | undefined;
+    private documentFilter: DocumentFilter | undefined;
     private actionHandler: ActionHandler | undefined;
+    private statsManager: StatsManager | undefined;
+    private sessionHistory: SessionHistory | undefined;
+    private scoreKeeper: ScoreKeeper | undefined;
     private gamePanelProvider: GamePanelProvider | undefined;
     private gameCommands: GameCommands | undefined;
+    private profileCommands: ProfileCommands | undefined;
     private soundManager: SoundManager | undefined;
+    private visualFeedbackManager: VisualFeedbackManager | undefined;
+    private gameContextKeys: GameContextKeys | undefined;
+    private extensionApi: ExtensionApi | undefined;
 
     /**
      * Activates the extension
      * @param context Extension context
+     * @returns Public API exports, or undefined if activation failed
      */
-    public async activate(context: vscode.ExtensionContext): Promise<void> {
+    public async activate(context: vscode.ExtensionContext): Promise<RedLightGreenLightExports | undefined> {
         console.log('Red Light Green Light extension is activating...');
 
         try {
             // Initialize core components
             this.settingsManager = new SettingsManager();
-            this.actionHandler = new ActionHandler();
+
+            // Layer the repository's team config file over user settings before anything reads them
+            await this.settingsManager.loadTeamConfig();
+            this.showTeamConfigProblems();
+            context.subscriptions.push(
+                this.settingsManager.onTeamConfigChange(() => this.showTeamConfigProblems())
+            );
             
             // Create game engine with initial configuration
             const gameConfig = this.settingsManager.toGameConfig();
             this.gameEngine = new GameEngine(gameConfig);
+            this.actionHandler = new ActionHandler(this.gameEngine);
+
+            // Expose the game state to menus and keybindings
+            this.gameContextKeys = new GameContextKeys(this.gameEngine);
+
+            // Track lifetime statistics across sessions
+            this.statsManager = new StatsManager(context.globalState, this.gameEngine);
+
+            // Record an append-only history of sessions
+            this.sessionHistory = new SessionHistory(context.globalStorageUri, this.gameEngine);
 
             // Initialize sound manager
             const soundConfig = this.settingsManager.getSettings().soundSettings;
@@ -44,12 +79,26 @@ class RedLightGreenLightExtension {
             // Initialize audio system with extension context
             await this.soundManager.initialize(context);
 
+            // Initialize visual feedback (status bar and editor flashes)
+            const visualConfig = this.settingsManager.getSettings().visualSettings;
+            this.visualFeedbackManager = new VisualFeedbackManager(visualConfig);
+            this.visualFeedbackManager.setEnabled(this.settingsManager.getSettings().enableVisualFeedback);
+
             // Initialize input monitoring
-            this.inputMonitor = new InputMonitor(this.gameEngine);
+            this.documentFilter = new DocumentFilter(this.settingsManager);
+            this.inputMonitor = new InputMonitor(this.gameEngine, this.documentFilter);
             this.inputMonitor.updateGracePeriod(this.settingsManager.getSettings().gracePeriod);
+            this.inputMonitor.updateTerminalMonitoring(this.settingsManager.getSettings().monitorTerminal);
+            this.inputMonitor.updateDeferredSaves(this.settingsManager.getSettings().deferSaves);
+            this.inputMonitor.updateTypingBlock(this.settingsManager.getSettings().blockTyping);
+            this.inputMonitor.updateChangeSources(this.settingsManager.getSettings().changeSources);
+            this.inputMonitor.updateHardMode(this.settingsManager.getSettings().hardMode);
 
             // Set up violation handling
             this.inputMonitor.onViolation(async (event) => {
+                this.statsManager?.recordViolation();
+                this.sessionHistory?.recordViolation(event);
+                this.visualFeedbackManager?.showViolationFeedback();
                 if (this.actionHandler) {
                     await this.actionHandler.handleViolation(event);
                 }
@@ -59,23 +108,46 @@ class RedLightGreenLightExtension {
                 }
             });
 
+            // Keep score from typing, clean red lights and violations
+            this.scoreKeeper = new ScoreKeeper(
+                this.gameEngine,
+                this.inputMonitor,
+                this.settingsManager.getSettings().scoring
+            );
+            this.scoreKeeper.onScoreChange(score => this.visualFeedbackManager?.updateScore(score));
+
             // Initialize UI components
-            this.gamePanelProvider = new GamePanelProvider(this.gameEngine, this.settingsManager);
+            this.gamePanelProvider = new GamePanelProvider(
+                this.gameEngine,
+                this.settingsManager,
+                this.sessionHistory,
+                this.scoreKeeper
+            );
             
-            // Register the tree data provider for the explorer view
-            vscode.window.createTreeView('redLightGreenLightView', {
-                treeDataProvider: this.gamePanelProvider,
-                showCollapseAll: false
-            });
+            // Register the dashboard webview for the explorer view
+            context.subscriptions.push(
+                vscode.window.registerWebviewViewProvider(GamePanelProvider.VIEW_ID, this.gamePanelProvider)
+            );
 
             // Initialize and register commands
             this.gameCommands = new GameCommands(
                 this.gameEngine,
                 this.settingsManager,
-                this.actionHandler
+                this.actionHandler,
+                this.statsManager,
+                this.sessionHistory,
+                this.scoreKeeper
             );
             this.gameCommands.registerCommands(context);
 
+            // Start and control sessions from vscode:// links
+            context.subscriptions.push(
+                vscode.window.registerUriHandler(new GameUriHandler(this.gameCommands, this.settingsManager))
+            );
+
+            this.profileCommands = new ProfileCommands(this.settingsManager);
+            this.profileCommands.registerCommands(context);
+
             // Set up settings change handling
             this.settingsManager.onSettingsChange((event) => {
                 if (this.gameEngine) {
@@ -90,11 +162,26 @@ class RedLightGreenLightExtension {
                     this.soundManager.setEnabled(newSettings.enableSounds);
                 }
                 
+                // Update visual feedback configuration
+                if (this.visualFeedbackManager) {
+                    const newSettings = this.settingsManager!.getSettings();
+                    this.visualFeedbackManager.updateConfig(newSettings.visualSettings);
+                    this.visualFeedbackManager.setEnabled(newSettings.enableVisualFeedback);
+                }
+                
                 // Update input monitor grace period
                 if (this.inputMonitor) {
                     const newSettings = this.settingsManager!.getSettings();
                     this.inputMonitor.updateGracePeriod(newSettings.gracePeriod);
+                    this.inputMonitor.updateTerminalMonitoring(newSettings.monitorTerminal);
+                    this.inputMonitor.updateDeferredSaves(newSettings.deferSaves);
+                    this.inputMonitor.updateTypingBlock(newSettings.blockTyping);
+                    this.inputMonitor.updateChangeSources(newSettings.changeSources);
+                    this.inputMonitor.updateHardMode(newSettings.hardMode);
+                    this.inputMonitor.updatePenaltyLadder(this.settingsManager!.toGameConfig().penaltyLadder);
                 }
+
+                this.scoreKeeper?.updateSettings(this.settingsManager!.getSettings().scoring);
             });
 
             // Set up game state change handling
@@ -108,13 +195,26 @@ class RedLightGreenLightExtension {
                     }
                 }
                 
+                // Show visual feedback for transitions, countdown for timer ticks
+                if (this.visualFeedbackManager) {
+                    if (event.previousState !== event.currentState) {
+                        this.visualFeedbackManager.handleStateChange(event);
+                    } else if (this.settingsManager!.getSettings().showTimer && event.remainingTime !== undefined) {
+                        this.visualFeedbackManager.updateTimer(event.remainingTime);
+                    }
+                }
+                
                 // Play sound for state changes
                 if (this.soundManager) {
-                    if (event.currentState === GameState.RedLight && event.previousState === GameState.GreenLight) {
+                    if (event.currentState === GameState.RedLight &&
+                        (event.previousState === GameState.GreenLight || event.previousState === GameState.YellowLight)) {
                         await this.soundManager.playSound(SoundType.RedLight);
+                    } else if (event.currentState === GameState.YellowLight && event.previousState === GameState.GreenLight) {
+                        await this.soundManager.playSound(SoundType.YellowLight);
                     } else if (event.currentState === GameState.GreenLight && event.previousState === GameState.RedLight) {
                         await this.soundManager.playSound(SoundType.GreenLight);
-                    } else if (event.currentState === GameState.GreenLight && event.previousState === GameState.Stopped) {
+                    } else if (event.previousState === GameState.Stopped && event.currentState !== GameState.Stopped) {
+                        // Schedules may open with either light
                         await this.soundManager.playSound(SoundType.GameStart);
                     } else if (event.currentState === GameState.Stopped && event.previousState !== GameState.Stopped) {
                         await this.soundManager.playSound(SoundType.GameStop);
@@ -127,20 +227,51 @@ class RedLightGreenLightExtension {
                 this.gameEngine,
                 this.settingsManager,
                 this.inputMonitor,
+                this.documentFilter,
                 this.actionHandler,
+                this.statsManager,
+                this.sessionHistory,
+                this.scoreKeeper,
                 this.gamePanelProvider,
                 this.gameCommands,
-                this.soundManager
+                this.profileCommands,
+                this.soundManager,
+                this.visualFeedbackManager,
+                this.gameContextKeys
+            );
+
+            // Public API for other extensions
+            this.extensionApi = new ExtensionApi(
+                this.gameEngine,
+                this.settingsManager,
+                this.inputMonitor,
+                this.statsManager
             );
+            context.subscriptions.push(this.extensionApi);
 
             console.log('Red Light Green Light extension activated successfully!');
 
+            return this.extensionApi;
+
         } catch (error) {
             console.error('Failed to activate Red Light Green Light extension:', error);
             vscode.window.showErrorMessage(
                 `Failed to activate Red Light Green Light extension: ${error instanceof Error ? error.message : 'Unknown error'}`
             );
+            return undefined;
+        }
+    }
+
+    /**
+     * Reports problems in the team config file, if there are any
+     */
+    private showTeamConfigProblems(): void {
+        const problems = this.settingsManager?.getTeamConfigProblems() ?? [];
+        if (problems.length === 0) {
+            return;
         }
+
+        vscode.window.showWarningMessage(`Red Light Green Light team config: ${problems.join('; ')}`);
     }
 
     /**
@@ -165,6 +296,7 @@ let extensionInstance: RedLightGreenLightExtension;
 /**
  * Called when the extension is activated
  * @param context Extension context
+ * @returns Public API exports for other extensions
  */
 export function activate(context: vscode.ExtensionContext) {
     extensionInstance = new RedLightGreenLightExtension();
@@ -0,0 +1,35 @@
+import { performance } from 'perf_hooks';
+
+/**
+ * Opaque handle returned by a clock's timer functions
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Time and scheduling functions used by the game core.
+ *
+ * Injecting a clock keeps the engine independent of the real time, so tests
+ * can drive phases with a fake clock instead of waiting on real timers.
+ */
+export interface Clock {
+    /** Wall-clock time in milliseconds, used for timestamps */
+    now(): number;
+    /** Monotonic time in milliseconds, unaffected by system clock changes; used for phase deadlines */
+    monotonicNow(): number;
+    setInterval(callback: () => void, ms: number): TimerHandle;
+    clearInterval(handle: TimerHandle): void;
+    setTimeout(callback: () => void, ms: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by Date.now and the global timer functions
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    monotonicNow: () => performance.now(),
+    setInterval: (callback, ms) => setInterval(callback, ms),
+    clearInterval: handle => clearInterval(handle as NodeJS.Timeout),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout)
+};
@@ -1,12 +1,44 @@
 import * as vscode from 'vscode';
-import { GameState, GameConfig, GameStateChangeEvent, TimerConfig } from '../types/game-types';
-import { TimerManager, TimerMode } from './timer-manager';
+import {
+    GameState,
+    GameConfig,
+    GamePhaseChangeEvent,
+    GameStateChangeEvent,
+    ScheduledPhase,
+    TimerConfig
+} from '../types/game-types';
+import { SchedulePosition, TimerManager, TimerMode } from './timer-manager';
+import { Clock, systemClock } from './clock';
+import { RandomSource } from './random-source';
 
 /**
  * Event emitter for game state changes
  */
 export type GameStateChangeListener = (event: GameStateChangeEvent) => void;
 
+/**
+ * Event emitter for new phases
+ */
+export type GamePhaseChangeListener = (event: GamePhaseChangeEvent) => void;
+
+/**
+ * Optional dependencies for the game engine
+ */
+export interface GameEngineOptions {
+    /** Clock used for session timing and phase timers (defaults to the system clock) */
+    readonly clock?: Clock;
+    /** Random source for random timing; overrides the configured seed */
+    readonly randomSource?: RandomSource;
+}
+
+/**
+ * Red or green phase to enter; without a duration the configured one is used
+ */
+interface PhaseRequest {
+    readonly state: ScheduledPhase['state'];
+    readonly duration?: number;
+}
+
 /**
  * Core game engine that manages the Red Light Green Light game state
  */
@@ -14,20 +46,30 @@ export class GameEngine implements vscode.Disposable {
     private currentState: GameState = GameState.Stopped;
     private timerManager: TimerManager;
     private stateChangeListeners: GameStateChangeListener[] = [];
+    private phaseChangeListeners: GamePhaseChangeListener[] = [];
+    private phaseIndex: number = -1;
     private config: GameConfig;
     private sessionStartTime: number = 0;
+    private pauseStartTime: number = 0;
+    private totalPausedTime: number = 0;
+    private stateBeforePause: GameState | null = null;
+    private pendingRedLight: PhaseRequest | null = null;
     private disposables: vscode.Disposable[] = [];
+    private readonly clock: Clock;
 
     /**
      * Creates a new GameEngine instance
      * @param config Game configuration
+     * @param options Optional clock and random source
      */
-    constructor(config: GameConfig) {
+    constructor(config: GameConfig, options: GameEngineOptions = {}) {
         this.config = config;
+        this.clock = options.clock ?? systemClock;
         this.timerManager = new TimerManager(
             config.timerConfig,
             this.onTimerTick.bind(this),
-            this.onTimerComplete.bind(this)
+            this.onTimerComplete.bind(this),
+            { clock: this.clock, randomSource: options.randomSource }
         );
     }
 
@@ -39,9 +81,13 @@ export class GameEngine implements vscode.Disposable {
             return;
         }
 
-        this.sessionStartTime = Date.now();
-        this.changeState(GameState.GreenLight);
-        this.timerManager.startTimer(TimerMode.GreenLight);
+        this.sessionStartTime = this.clock.now();
+        this.totalPausedTime = 0;
+        this.phaseIndex = -1;
+        this.timerManager.resetRandomSource();
+
+        const firstPhase = this.timerManager.startSchedule();
+        this.startPhase(firstPhase ?? { state: GameState.GreenLight });
     }
 
     /**
@@ -55,6 +101,44 @@ export class GameEngine implements vscode.Disposable {
         this.timerManager.stop();
         this.changeState(GameState.Stopped);
         this.sessionStartTime = 0;
+        this.pauseStartTime = 0;
+        this.totalPausedTime = 0;
+        this.stateBeforePause = null;
+        this.pendingRedLight = null;
+        this.phaseIndex = -1;
+    }
+
+    /**
+     * Pauses the game, keeping the remaining phase time and session duration
+     */
+    public pause(): void {
+        if (this.currentState !== GameState.RedLight &&
+            this.currentState !== GameState.GreenLight &&
+            this.currentState !== GameState.YellowLight) {
+            return;
+        }
+
+        this.timerManager.pause();
+        this.stateBeforePause = this.currentState;
+        this.pauseStartTime = this.clock.now();
+        this.changeState(GameState.Paused);
+    }
+
+    /**
+     * Resumes a paused game in the phase it was paused in
+     */
+    public resume(): void {
+        if (this.currentState !== GameState.Paused || this.stateBeforePause === null) {
+            return;
+        }
+
+        this.totalPausedTime += this.clock.now() - this.pauseStartTime;
+        this.pauseStartTime = 0;
+
+        const resumedState = this.stateBeforePause;
+        this.stateBeforePause = null;
+        this.changeState(resumedState);
+        this.timerManager.resume();
     }
 
     /**
@@ -68,6 +152,13 @@ export class GameEngine implements vscode.Disposable {
         }
     }
 
+    /**
+     * Gets the clock used by the game engine
+     */
+    public getClock(): Clock {
+        return this.clock;
+    }
+
     /**
      * Gets the current game state
      */
@@ -82,6 +173,20 @@ export class GameEngine implements vscode.Disposable {
         return this.timerManager.getRemainingTime();
     }
 
+    /**
+     * Gets the monotonic clock time at which the current phase started
+     */
+    public getPhaseStartTime(): number {
+        return this.timerManager.getPhaseStartTime();
+    }
+
+    /**
+     * Gets the position within the phase schedule, if one is active
+     */
+    public getSchedulePosition(): SchedulePosition | null {
+        return this.timerManager.getSchedulePosition();
+    }
+
     /**
      * Checks if the game is currently active
      */
@@ -89,21 +194,34 @@ export class GameEngine implements vscode.Disposable {
         return this.currentState !== GameState.Stopped;
     }
 
+    /**
+     * Checks if the game is currently paused
+     */
+    public isPaused(): boolean {
+        return this.currentState === GameState.Paused;
+    }
+
     /**
      * Checks if typing is currently allowed
      */
     public isTypingAllowed(): boolean {
-        return this.currentState === GameState.GreenLight || this.currentState === GameState.Stopped;
+        return this.currentState === GameState.GreenLight ||
+               this.currentState === GameState.YellowLight ||
+               this.currentState === GameState.Stopped ||
+               this.currentState === GameState.Paused;
     }
 
     /**
-     * Gets the current session duration in milliseconds
+     * Gets the current session duration in milliseconds, excluding time spent paused
      */
     public getSessionDuration(): number {
         if (this.sessionStartTime === 0) {
             return 0;
         }
-        return Date.now() - this.sessionStartTime;
+
+        const now = this.clock.now();
+        const currentPause = this.pauseStartTime > 0 ? now - this.pauseStartTime : 0;
+        return now - this.sessionStartTime - this.totalPausedTime - currentPause;
     }
 
     /**
@@ -137,6 +255,22 @@ export class GameEngine implements vscode.Disposable {
         });
     }
 
+    /**
+     * Adds a listener for new phases. Unlike state changes, these are sent for
+     * every phase, including one that follows a phase with the same light.
+     * @param listener Phase change listener function
+     */
+    public onPhaseChange(listener: GamePhaseChangeListener): vscode.Disposable {
+        this.phaseChangeListeners.push(listener);
+
+        return new vscode.Disposable(() => {
+            const index = this.phaseChangeListeners.indexOf(listener);
+            if (index >= 0) {
+                this.phaseChangeListeners.splice(index, 1);
+            }
+        });
+    }
+
     /**
      * Forces a state transition for testing purposes
      * @param newState New game state
@@ -169,14 +303,76 @@ export class GameEngine implements vscode.Disposable {
             return;
         }
 
-        // Switch between red and green light
-        if (completedMode === TimerMode.GreenLight) {
-            this.changeState(GameState.RedLight);
-            this.timerManager.startTimer(TimerMode.RedLight);
-        } else if (completedMode === TimerMode.RedLight) {
-            this.changeState(GameState.GreenLight);
-            this.timerManager.startTimer(TimerMode.GreenLight);
+        // The yellow warning always hands over to the red light it announced
+        if (completedMode === TimerMode.YellowLight) {
+            const redLight = this.pendingRedLight ?? { state: GameState.RedLight };
+            this.pendingRedLight = null;
+            this.startPhase(redLight);
+            return;
+        }
+
+        // Follow the phase schedule when one is configured; the session ends with it
+        let nextPhase: PhaseRequest;
+        if (this.timerManager.isScheduled()) {
+            const scheduledPhase = this.timerManager.nextScheduledPhase();
+            if (!scheduledPhase) {
+                this.stop();
+                return;
+            }
+            nextPhase = scheduledPhase;
+        } else {
+            // Switch between red and green light
+            nextPhase = { state: completedMode === TimerMode.GreenLight ? GameState.RedLight : GameState.GreenLight };
+        }
+
+        // Warn with a yellow light when green is about to turn red
+        if (completedMode === TimerMode.GreenLight &&
+            nextPhase.state === GameState.RedLight &&
+            this.config.timerConfig.yellowLightDuration > 0) {
+            this.pendingRedLight = nextPhase;
+            this.beginPhase(GameState.YellowLight, TimerMode.YellowLight);
+            return;
         }
+
+        this.startPhase(nextPhase);
+    }
+
+    /**
+     * Enters a red or green phase and starts its timer
+     * @param phase Phase to enter; without a duration the configured one is used
+     */
+    private startPhase(phase: PhaseRequest): void {
+        const mode = phase.state === GameState.RedLight ? TimerMode.RedLight : TimerMode.GreenLight;
+        this.beginPhase(phase.state, mode, phase.duration);
+    }
+
+    /**
+     * Changes to the state of a new phase, starts its timer and notifies phase listeners
+     * @param state State of the new phase
+     * @param mode Timer mode of the new phase
+     * @param duration Phase duration in seconds; without one the configured one is used
+     */
+    private beginPhase(state: GameState, mode: TimerMode, duration?: number): void {
+        const previousState = this.currentState;
+        this.changeState(state);
+        this.timerManager.startTimer(mode, duration);
+        this.phaseIndex++;
+
+        // Sent once the timer runs, so listeners see the new phase's start time and duration
+        const event: GamePhaseChangeEvent = {
+            previousState,
+            currentState: state,
+            phaseIndex: this.phaseIndex,
+            timestamp: this.clock.now()
+        };
+
+        this.phaseChangeListeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Error in game phase change listener:', error);
+            }
+        });
     }
 
     /**
@@ -198,7 +394,7 @@ export class GameEngine implements vscode.Disposable {
         const event: GameStateChangeEvent = {
             previousState,
             currentState: this.currentState,
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             remainingTime: remainingTime ?? this.timerManager.getRemainingTime()
         };
 
@@ -218,6 +414,7 @@ export class GameEngine implements vscode.Disposable {
         this.stop();
         this.timerManager.dispose();
         this.stateChangeListeners.length = 0;
+        this.phaseChangeListeners.length = 0;
         
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables.length = 0;
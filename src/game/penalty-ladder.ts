@@ -0,0 +1,86 @@
+import { PenaltyLadderConfig, PenaltyStep, RedLightAction } from '../types/game-types';
+
+/**
+ * Escalates the penalty for repeated red light violations.
+ *
+ * Violations are counted for the whole session, or only within a rolling
+ * window when `windowSeconds` is greater than zero. The step applied is the
+ * highest one whose violation count has been reached.
+ */
+export class PenaltyLadder {
+    private config: PenaltyLadderConfig;
+    private violationTimes: number[] = [];
+
+    /**
+     * Creates a new PenaltyLadder instance
+     * @param config Penalty ladder configuration
+     */
+    constructor(config: PenaltyLadderConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Records a violation and returns the penalty step it triggers
+     * @param timestamp Violation time in milliseconds
+     * @param fallbackAction Action used when no step applies
+     * @returns Penalty step to apply
+     */
+    public recordViolation(timestamp: number, fallbackAction: RedLightAction): PenaltyStep {
+        this.violationTimes.push(timestamp);
+        this.pruneViolations(timestamp);
+
+        const count = this.violationTimes.length;
+        let currentStep: PenaltyStep | undefined;
+
+        for (const step of this.config.steps) {
+            if (step.violations <= count && (!currentStep || step.violations > currentStep.violations)) {
+                currentStep = step;
+            }
+        }
+
+        return currentStep ?? { violations: count, action: fallbackAction };
+    }
+
+    /**
+     * Checks if the ladder is enabled
+     */
+    public isEnabled(): boolean {
+        return this.config.enabled && this.config.steps.length > 0;
+    }
+
+    /**
+     * Checks if any step of the ladder uses the given action
+     * @param action Action to look for
+     */
+    public usesAction(action: RedLightAction): boolean {
+        return this.isEnabled() && this.config.steps.some(step => step.action === action);
+    }
+
+    /**
+     * Clears all counted violations (e.g. when a new session starts)
+     */
+    public reset(): void {
+        this.violationTimes = [];
+    }
+
+    /**
+     * Updates the ladder configuration
+     * @param newConfig New penalty ladder configuration
+     */
+    public updateConfig(newConfig: PenaltyLadderConfig): void {
+        this.config = newConfig;
+    }
+
+    /**
+     * Drops violations that fell out of the rolling window
+     * @param timestamp Current time in milliseconds
+     */
+    private pruneViolations(timestamp: number): void {
+        if (this.config.windowSeconds <= 0) {
+            return;
+        }
+
+        const windowStart = timestamp - this.config.windowSeconds * 1000;
+        this.violationTimes = this.violationTimes.filter(time => time > windowStart);
+    }
+}
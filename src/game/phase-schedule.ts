@@ -0,0 +1,42 @@
+import { GameState, ScheduledPhase } from '../types/game-types';
+import { ScheduleBlockSettings } from '../types/settings-types';
+
+/**
+ * Shortest phase a ramp can shrink to, in seconds
+ */
+export const MIN_SCHEDULED_DURATION = 1;
+
+/**
+ * Most times a block can repeat
+ */
+export const MAX_SCHEDULE_REPEAT = 100;
+
+/**
+ * Expands schedule blocks into the flat list of phases the timer walks through.
+ *
+ * Each block's phases are repeated `repeat` times; a phase with a `step`
+ * changes its duration by that many seconds on every repeat, which allows
+ * ramps such as green periods that shrink over the session. Settings are
+ * expanded before they are validated, so repeats are capped here as well.
+ * @param blocks Schedule blocks from settings
+ * @returns Scheduled phases in order
+ */
+export function expandSchedule(blocks: readonly ScheduleBlockSettings[]): ScheduledPhase[] {
+    const phases: ScheduledPhase[] = [];
+
+    for (const block of blocks) {
+        const repeat = Math.min(MAX_SCHEDULE_REPEAT, block.repeat ?? 1);
+
+        for (let iteration = 0; iteration < repeat; iteration++) {
+            for (const phase of block.phases) {
+                const duration = phase.duration + (phase.step ?? 0) * iteration;
+                phases.push({
+                    state: phase.light === 'red' ? GameState.RedLight : GameState.GreenLight,
+                    duration: Math.max(MIN_SCHEDULED_DURATION, duration)
+                });
+            }
+        }
+    }
+
+    return phases;
+}
@@ -0,0 +1,45 @@
+/**
+ * Source of random numbers in the range [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a random source, deterministic when a seed is given
+ * @param seed Optional seed; the same seed always yields the same sequence
+ * @returns Random source
+ */
+export function createRandomSource(seed?: string): RandomSource {
+    if (!seed) {
+        return Math.random;
+    }
+    return mulberry32(hashSeed(seed));
+}
+
+/**
+ * Hashes a seed string into a 32-bit integer (FNV-1a)
+ * @param seed Seed string
+ * @returns 32-bit hash
+ */
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Small, fast seeded PRNG with a 32-bit state
+ * @param state Initial state
+ * @returns Random source
+ */
+function mulberry32(state: number): RandomSource {
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
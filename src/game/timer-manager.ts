@@ -1,11 +1,19 @@
-import { TimerConfig } from '../types/game-types';
+import { ScheduledPhase, TimerConfig } from '../types/game-types';
+import { RandomSource, createRandomSource } from './random-source';
+import { Clock, TimerHandle, systemClock } from './clock';
+
+/**
+ * Timers may fire this many milliseconds early without a tick being repeated
+ */
+const TIMER_TOLERANCE_MS = 2;
 
 /**
  * Timer mode enumeration
  */
 export enum TimerMode {
     RedLight = 'red',
-    GreenLight = 'green'
+    GreenLight = 'green',
+    YellowLight = 'yellow'
 }
 
 /**
@@ -19,55 +27,180 @@ export type TimerCallback = (mode: TimerMode, remainingTime: number) => void;
 export type TimerCompleteCallback = (mode: TimerMode) => void;
 
 /**
- * Manages timing intervals for red and green light phases
+ * Position within the active phase schedule
+ */
+export interface SchedulePosition {
+    /** Zero-based index of the current phase */
+    readonly index: number;
+    readonly total: number;
+}
+
+/**
+ * Optional dependencies for the timer manager
+ */
+export interface TimerManagerOptions {
+    /** Random source for random timing; overrides the configured seed */
+    readonly randomSource?: RandomSource;
+    /** Clock used for scheduling ticks (defaults to the system clock) */
+    readonly clock?: Clock;
+}
+
+/**
+ * Manages timing for red and green light phases.
+ *
+ * Each phase runs against a deadline on the monotonic clock, so the remaining
+ * time is always derived from the clock rather than counted down, and late
+ * timer callbacks never accumulate drift. UI ticks fire whenever the remaining
+ * time crosses a whole second; durations may be fractional.
  */
 export class TimerManager {
-    private currentTimer: NodeJS.Timeout | null = null;
     private currentMode: TimerMode | null = null;
-    private remainingTime: number = 0;
-    private tickInterval: NodeJS.Timeout | null = null;
+    private remainingMs: number = 0;
+    private deadline: number = 0;
+    private phaseStartTime: number = 0;
+    private phaseBoundary: number | null = null;
+    private paused: boolean = false;
+    private timerHandle: TimerHandle | null = null;
     private readonly config: TimerConfig;
     private readonly onTick: TimerCallback;
     private readonly onComplete: TimerCompleteCallback;
+    private readonly customRandomSource: RandomSource | undefined;
+    private random: RandomSource;
+    private readonly clock: Clock;
+    private activeSchedule: readonly ScheduledPhase[] = [];
+    private loopSchedule: boolean = false;
+    private scheduleIndex: number = -1;
 
     /**
      * Creates a new TimerManager instance
      * @param config Timer configuration
-     * @param onTick Callback for timer ticks (every second)
+     * @param onTick Callback for timer ticks (whenever the remaining whole seconds change)
      * @param onComplete Callback for timer completion
+     * @param options Optional random source and clock
      */
     constructor(
         config: TimerConfig,
         onTick: TimerCallback,
-        onComplete: TimerCompleteCallback
+        onComplete: TimerCompleteCallback,
+        options: TimerManagerOptions = {}
     ) {
         this.config = config;
         this.onTick = onTick;
         this.onComplete = onComplete;
+        this.customRandomSource = options.randomSource;
+        this.random = options.randomSource ?? createRandomSource(config.randomSeed);
+        this.clock = options.clock ?? systemClock;
+    }
+
+    /**
+     * Restarts the random sequence from the configured seed, so every
+     * session with the same seed gets the same red/green schedule
+     */
+    public resetRandomSource(): void {
+        if (this.customRandomSource) {
+            return;
+        }
+        this.random = createRandomSource(this.config.randomSeed);
+    }
+
+    /**
+     * Starts the configured phase schedule from its first phase.
+     * The schedule is captured here, so edits apply from the next session.
+     * @returns First scheduled phase, or null if no schedule is configured
+     */
+    public startSchedule(): ScheduledPhase | null {
+        this.activeSchedule = [...this.config.schedule];
+        this.loopSchedule = this.config.loopSchedule;
+        this.scheduleIndex = -1;
+        return this.nextScheduledPhase();
+    }
+
+    /**
+     * Advances to the next phase of the active schedule
+     * @returns Next scheduled phase, or null when the schedule has finished
+     */
+    public nextScheduledPhase(): ScheduledPhase | null {
+        if (this.activeSchedule.length === 0) {
+            return null;
+        }
+
+        let nextIndex = this.scheduleIndex + 1;
+        if (nextIndex >= this.activeSchedule.length) {
+            if (!this.loopSchedule) {
+                this.scheduleIndex = this.activeSchedule.length;
+                return null;
+            }
+            nextIndex = 0;
+        }
+
+        this.scheduleIndex = nextIndex;
+        return this.activeSchedule[nextIndex];
+    }
+
+    /**
+     * Checks if a phase schedule is driving the timer
+     */
+    public isScheduled(): boolean {
+        return this.activeSchedule.length > 0;
     }
 
     /**
-     * Starts a timer for the specified mode
-     * @param mode Timer mode (red or green light)
+     * Gets the position within the active phase schedule
+     * @returns Schedule position, or null if no schedule is active
      */
-    public startTimer(mode: TimerMode): void {
+    public getSchedulePosition(): SchedulePosition | null {
+        if (this.activeSchedule.length === 0 || this.scheduleIndex < 0) {
+            return null;
+        }
+        return {
+            index: Math.min(this.scheduleIndex, this.activeSchedule.length - 1),
+            total: this.activeSchedule.length
+        };
+    }
+
+    /**
+     * Starts a timer for the specified mode.
+     * A phase started from a completion callback begins exactly at the previous deadline.
+     * @param mode Timer mode (red, yellow or green light)
+     * @param duration Optional duration in seconds; defaults to the configured duration for the mode
+     */
+    public startTimer(mode: TimerMode, duration?: number): void {
         this.cleanup();
-        
+
+        const now = this.clock.monotonicNow();
+        this.phaseStartTime = this.phaseBoundary ?? now;
+        this.phaseBoundary = null;
+
         this.currentMode = mode;
-        this.remainingTime = this.getDurationForMode(mode);
-        
-        // Start the tick interval (updates every second)
-        this.tickInterval = setInterval(() => {
-            this.remainingTime--;
-            this.onTick(mode, this.remainingTime);
-            
-            if (this.remainingTime <= 0) {
-                this.completeTimer();
-            }
-        }, 1000);
-        
-        // Initial tick
-        this.onTick(mode, this.remainingTime);
+        const durationMs = (duration ?? this.getDurationForMode(mode)) * 1000;
+        this.remainingMs = Math.max(0, durationMs - (now - this.phaseStartTime));
+        this.paused = false;
+        this.startTicking(mode);
+    }
+
+    /**
+     * Pauses the current timer, keeping the remaining time
+     */
+    public pause(): void {
+        if (!this.isActive()) {
+            return;
+        }
+
+        this.remainingMs = Math.max(0, this.deadline - this.clock.monotonicNow());
+        this.cleanup();
+        this.paused = true;
+    }
+
+    /**
+     * Resumes a paused timer from the remaining time
+     */
+    public resume(): void {
+        if (!this.paused || this.currentMode === null) {
+            return;
+        }
+
+        this.paused = false;
+        this.startTicking(this.currentMode);
     }
 
     /**
@@ -76,7 +209,11 @@ export class TimerManager {
     public stop(): void {
         this.cleanup();
         this.currentMode = null;
-        this.remainingTime = 0;
+        this.remainingMs = 0;
+        this.phaseBoundary = null;
+        this.paused = false;
+        this.activeSchedule = [];
+        this.scheduleIndex = -1;
     }
 
     /**
@@ -87,17 +224,41 @@ export class TimerManager {
     }
 
     /**
-     * Gets the remaining time in seconds
+     * Gets the remaining time in whole seconds, rounded up for display
      */
     public getRemainingTime(): number {
-        return this.remainingTime;
+        return toDisplaySeconds(this.getRemainingMilliseconds());
+    }
+
+    /**
+     * Gets the exact remaining time in milliseconds
+     */
+    public getRemainingMilliseconds(): number {
+        if (this.currentMode !== null && !this.paused) {
+            return Math.max(0, this.deadline - this.clock.monotonicNow());
+        }
+        return this.remainingMs;
+    }
+
+    /**
+     * Gets the monotonic time at which the current phase started
+     */
+    public getPhaseStartTime(): number {
+        return this.phaseStartTime;
     }
 
     /**
      * Checks if a timer is currently active
      */
     public isActive(): boolean {
-        return this.currentMode !== null && this.tickInterval !== null;
+        return this.currentMode !== null && this.timerHandle !== null;
+    }
+
+    /**
+     * Checks if the timer is paused
+     */
+    public isPaused(): boolean {
+        return this.paused;
     }
 
     /**
@@ -105,7 +266,54 @@ export class TimerManager {
      * @param newConfig New timer configuration
      */
     public updateConfig(newConfig: TimerConfig): void {
+        const seedChanged = newConfig.randomSeed !== this.config.randomSeed;
         Object.assign(this.config as any, newConfig);
+
+        if (seedChanged) {
+            this.resetRandomSource();
+        }
+    }
+
+    /**
+     * Sets the deadline from the remaining time and starts ticking towards it
+     * @param mode Timer mode
+     */
+    private startTicking(mode: TimerMode): void {
+        this.deadline = this.clock.monotonicNow() + this.remainingMs;
+        this.scheduleNextTick(mode, this.remainingMs);
+
+        // Initial tick
+        this.onTick(mode, toDisplaySeconds(this.remainingMs));
+    }
+
+    /**
+     * Schedules the next wake-up at the next whole second of remaining time
+     * @param mode Timer mode
+     * @param remainingMs Remaining time in milliseconds
+     */
+    private scheduleNextTick(mode: TimerMode, remainingMs: number): void {
+        const untilNextSecond = remainingMs % 1000;
+        const delay = untilNextSecond > TIMER_TOLERANCE_MS ? untilNextSecond : untilNextSecond + 1000;
+        this.timerHandle = this.clock.setTimeout(() => this.onTimerFired(mode), Math.min(delay, remainingMs));
+    }
+
+    /**
+     * Reports the remaining time, or completes the phase once its deadline has passed
+     * @param mode Timer mode
+     */
+    private onTimerFired(mode: TimerMode): void {
+        this.timerHandle = null;
+        const remainingMs = this.deadline - this.clock.monotonicNow();
+
+        if (remainingMs <= TIMER_TOLERANCE_MS) {
+            this.remainingMs = 0;
+            this.onTick(mode, 0);
+            this.completeTimer();
+            return;
+        }
+
+        this.onTick(mode, toDisplaySeconds(remainingMs));
+        this.scheduleNextTick(mode, remainingMs);
     }
 
     /**
@@ -114,6 +322,11 @@ export class TimerManager {
      * @returns Duration in seconds
      */
     private getDurationForMode(mode: TimerMode): number {
+        // The warning phase keeps a fixed length so it stays predictable
+        if (mode === TimerMode.YellowLight) {
+            return this.config.yellowLightDuration;
+        }
+
         if (this.config.useRandomTiming) {
             return this.getRandomDuration();
         }
@@ -130,7 +343,7 @@ export class TimerManager {
     private getRandomDuration(): number {
         const min = this.config.minRandomTime;
         const max = this.config.maxRandomTime;
-        return Math.floor(Math.random() * (max - min + 1)) + min;
+        return Math.floor(this.random() * (max - min + 1)) + min;
     }
 
     /**
@@ -139,9 +352,12 @@ export class TimerManager {
     private completeTimer(): void {
         const completedMode = this.currentMode;
         this.cleanup();
-        
+
         if (completedMode) {
+            // The next phase starts at this deadline, however late the callback ran
+            this.phaseBoundary = this.deadline;
             this.onComplete(completedMode);
+            this.phaseBoundary = null;
         }
     }
 
@@ -149,14 +365,9 @@ export class TimerManager {
      * Cleans up timer resources
      */
     private cleanup(): void {
-        if (this.tickInterval) {
-            clearInterval(this.tickInterval);
-            this.tickInterval = null;
-        }
-        
-        if (this.currentTimer) {
-            clearTimeout(this.currentTimer);
-            this.currentTimer = null;
+        if (this.timerHandle) {
+            this.clock.clearTimeout(this.timerHandle);
+            this.timerHandle = null;
         }
     }
 
@@ -166,6 +377,16 @@ export class TimerManager {
     public dispose(): void {
         this.cleanup();
         this.currentMode = null;
-        this.remainingTime = 0;
+        this.remainingMs = 0;
+        this.paused = false;
     }
 }
+
+/**
+ * Converts remaining milliseconds to the whole seconds shown to the player
+ * @param remainingMs Remaining time in milliseconds
+ * @returns Remaining seconds, rounded up
+ */
+function toDisplaySeconds(remainingMs: number): number {
+    return Math.max(0, Math.ceil((remainingMs - TIMER_TOLERANCE_MS) / 1000));
+}
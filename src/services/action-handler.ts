@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { RedLightAction, RedLightViolationEvent } from '../types/game-types';
+import { GameEngine } from '../game/game-engine';
+import { GameState, RedLightAction, RedLightViolationEvent, ViolationKind } from '../types/game-types';
 
 /**
  * Action result interface
@@ -19,9 +20,16 @@ export class ActionHandler implements vscode.Disposable {
 
     /**
      * Creates a new ActionHandler instance
+     * @param gameEngine Game engine instance whose sessions the violation count belongs to
      */
-    constructor() {
-        // Initialize action handler
+    constructor(gameEngine: GameEngine) {
+        // However a session ends, the next one starts counting from zero
+        const stateChangeDisposable = gameEngine.onStateChange(event => {
+            if (event.currentState === GameState.Stopped && event.previousState !== GameState.Stopped) {
+                this.resetViolationCount();
+            }
+        });
+        this.disposables.push(stateChangeDisposable);
     }
 
     /**
@@ -40,6 +48,15 @@ export class ActionHandler implements vscode.Disposable {
                 case RedLightAction.Warn:
                     return await this.handleWarnAction(event);
                 
+                case RedLightAction.Revert:
+                    return await this.handleRevertAction(event);
+                
+                case RedLightAction.Lock:
+                    return await this.handleLockAction(event);
+                
+                case RedLightAction.EndSession:
+                    return await this.handleEndSessionAction(event);
+                
                 default:
                     return {
                         success: false,
@@ -137,6 +154,63 @@ export class ActionHandler implements vscode.Disposable {
         };
     }
 
+    /**
+     * Handles the revert action (the edit itself is rolled back by the input monitor)
+     * @param event Violation event
+     * @returns Action result
+     */
+    private async handleRevertAction(event: RedLightViolationEvent): Promise<ActionResult> {
+        vscode.window.setStatusBarMessage(
+            `↩️ Red light edit reverted (${this.violationCount} violations this session)`,
+            3000
+        );
+
+        return {
+            success: true,
+            message: `Red light change in ${event.documentUri} reverted.`,
+            actionTaken: RedLightAction.Revert
+        };
+    }
+
+    /**
+     * Handles the lock action (the input monitor reverts edits while locked)
+     * @param event Violation event
+     * @returns Action result
+     */
+    private async handleLockAction(event: RedLightViolationEvent): Promise<ActionResult> {
+        const lockDuration = event.lockDuration ?? 0;
+
+        await vscode.window.showWarningMessage(
+            `🔒 Typing locked for ${lockDuration} seconds after ${this.violationCount} red light violations. ` +
+            `Edits made while locked are reverted.`
+        );
+
+        return {
+            success: true,
+            message: `Typing locked for ${lockDuration} seconds.`,
+            actionTaken: RedLightAction.Lock
+        };
+    }
+
+    /**
+     * Handles the end session action
+     * @param event Violation event
+     * @returns Action result
+     */
+    private async handleEndSessionAction(event: RedLightViolationEvent): Promise<ActionResult> {
+        vscode.window.setStatusBarMessage(
+            `🛑 Too many red light violations (${this.violationCount}). Session ended.`,
+            5000
+        );
+        await vscode.commands.executeCommand('redLightGreenLight.stopGame');
+
+        return {
+            success: true,
+            message: 'Session ended due to repeated red light violations.',
+            actionTaken: RedLightAction.EndSession
+        };
+    }
+
     /**
      * Creates a formatted violation message
      * @param event Violation event
@@ -205,6 +279,7 @@ export class ActionHandler implements vscode.Disposable {
         const testEvent: RedLightViolationEvent = {
             timestamp: Date.now(),
             documentUri: 'test://test-document',
+            kind: ViolationKind.Edit,
             changeText: 'Test violation',
             actionTaken: action
         };
@@ -0,0 +1,294 @@
+import * as vscode from 'vscode';
+import { Clock, TimerHandle } from '../game/clock';
+import { ChangeSource } from '../types/game-types';
+
+/**
+ * Time in milliseconds within which closing text inserted by the editor
+ * belongs to the keystroke before it
+ */
+const AUTO_CLOSING_MS = 50;
+
+/**
+ * Length from which a single insertion is taken to be pasted rather than typed
+ */
+const PASTE_MIN_LENGTH = 20;
+
+/**
+ * Text an editor inserts by itself after a keystroke: closing brackets and
+ * quotes, or a closing tag
+ */
+const AUTO_CLOSING_TEXT = /^(?:[)\]}>'"`]+|<\/[\w.:-]+>)$/;
+
+/**
+ * Result of classifying a document change
+ */
+export interface ChangeClassification {
+    readonly source: ChangeSource;
+    /**
+     * True when the change was inserted by the editor right after a keystroke,
+     * such as an auto-closed tag, and belongs to that keystroke
+     */
+    readonly autoInserted: boolean;
+}
+
+/**
+ * Listener called with the classification of a change
+ */
+export type ClassificationListener = (classification: ChangeClassification) => void;
+
+/**
+ * Last change seen by the classifier
+ */
+interface LastChange {
+    readonly documentUri: string;
+    readonly time: number;
+    readonly source: ChangeSource;
+}
+
+/**
+ * Change waiting for the rest of its batch
+ */
+interface PendingChange {
+    readonly documentUri: string;
+    readonly classification: ChangeClassification;
+    /** False for undo, redo and reloads, which keep their source within a multi-file edit */
+    readonly isEdit: boolean;
+    readonly listener: ClassificationListener;
+}
+
+/**
+ * Tells typing apart from the other ways a document changes.
+ *
+ * The editor API does not say who made an edit, so apart from undo and redo
+ * the sources are inferred, in this order:
+ * - External: the document was unmodified before the change and still is
+ *   afterwards (reloaded from disk, e.g. after `git checkout`), or it is not
+ *   the active editor's document
+ * - Refactor: the changes delivered together with it touch several documents
+ *   (multi-file edits such as a rename)
+ * - Formatter: the edit is away from every cursor in the active editor
+ * - Pasted: a multi-line or long insertion
+ * - Typed: everything else
+ *
+ * VS Code delivers the document changes of one workspace edit one after the
+ * other without yielding, so changes are classified once the current turn of
+ * the event loop is over and every change of the edit has been seen.
+ */
+export class ChangeClassifier implements vscode.Disposable {
+    private clock: Clock;
+    private lastChange: LastChange | null = null;
+    private pendingChanges: PendingChange[] = [];
+    private flushTimeout: TimerHandle | null = null;
+    private dirtyDocuments: Set<string> = new Set();
+    private dirtyBeforeChange: WeakMap<vscode.TextDocumentChangeEvent, boolean> = new WeakMap();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new ChangeClassifier instance
+     * @param clock Clock used to batch changes and to time auto-closing text
+     */
+    constructor(clock: Clock) {
+        this.clock = clock;
+        this.setupDocumentListeners();
+    }
+
+    /**
+     * Classifies a document change once the changes delivered with it are known
+     * @param event Text document change event
+     * @param listener Listener called with the source of the change
+     */
+    public classify(event: vscode.TextDocumentChangeEvent, listener: ClassificationListener): void {
+        const documentUri = event.document.uri.toString();
+        const time = this.clock.monotonicNow();
+        const previous = this.lastChange !== null && time - this.lastChange.time <= AUTO_CLOSING_MS
+            ? this.lastChange
+            : null;
+
+        const classification = this.classifySource(event, documentUri, previous);
+        this.lastChange = { documentUri, time, source: classification.source };
+
+        const isEdit = event.reason === undefined && !this.isReload(event);
+        this.pendingChanges.push({ documentUri, classification, isEdit, listener });
+        this.flushTimeout ??= this.clock.setTimeout(() => this.flush(), 0);
+    }
+
+    /**
+     * Forgets earlier changes, e.g. when a new red phase starts
+     */
+    public reset(): void {
+        this.lastChange = null;
+    }
+
+    /**
+     * Tracks which documents have unsaved changes, to tell reloads from edits
+     */
+    private setupDocumentListeners(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.isDirty) {
+                this.dirtyDocuments.add(document.uri.toString());
+            }
+        }
+
+        const changeDisposable = vscode.workspace.onDidChangeTextDocument(event => this.wasDirtyBefore(event));
+        this.disposables.push(changeDisposable);
+
+        const saveDisposable = vscode.workspace.onDidSaveTextDocument(document => {
+            this.dirtyDocuments.delete(document.uri.toString());
+        });
+        this.disposables.push(saveDisposable);
+
+        const closeDisposable = vscode.workspace.onDidCloseTextDocument(document => {
+            this.dirtyDocuments.delete(document.uri.toString());
+        });
+        this.disposables.push(closeDisposable);
+    }
+
+    /**
+     * Checks if a document had unsaved changes before a change, recording its state after it.
+     * The classifier's own listener and classify may see the change in either order.
+     * @param event Text document change event
+     */
+    private wasDirtyBefore(event: vscode.TextDocumentChangeEvent): boolean {
+        let wasDirty = this.dirtyBeforeChange.get(event);
+        if (wasDirty === undefined) {
+            const documentUri = event.document.uri.toString();
+            wasDirty = this.dirtyDocuments.has(documentUri);
+            this.dirtyBeforeChange.set(event, wasDirty);
+
+            if (event.document.isDirty) {
+                this.dirtyDocuments.add(documentUri);
+            } else {
+                this.dirtyDocuments.delete(documentUri);
+            }
+        }
+        return wasDirty;
+    }
+
+    /**
+     * Checks if a change reloaded the document from disk. Typing can return a document
+     * to its saved text, but only a reload leaves an unmodified document unmodified.
+     * @param event Text document change event
+     */
+    private isReload(event: vscode.TextDocumentChangeEvent): boolean {
+        return !this.wasDirtyBefore(event) && !event.document.isDirty;
+    }
+
+    /**
+     * Reports the changes delivered together, all as a refactor if they touch several documents
+     */
+    private flush(): void {
+        const changes = this.pendingChanges;
+        this.pendingChanges = [];
+        this.flushTimeout = null;
+
+        const isMultiFileEdit = changes.some(change => change.documentUri !== changes[0].documentUri);
+        for (const change of changes) {
+            const classification = isMultiFileEdit && change.isEdit
+                ? { source: ChangeSource.Refactor, autoInserted: false }
+                : change.classification;
+
+            try {
+                change.listener(classification);
+            } catch (error) {
+                console.error('Error in change classification listener:', error);
+            }
+        }
+    }
+
+    /**
+     * Works out the source of a change from the change on its own
+     * @param event Text document change event
+     * @param documentUri Document URI
+     * @param previous Change made just before this one, if any
+     */
+    private classifySource(
+        event: vscode.TextDocumentChangeEvent,
+        documentUri: string,
+        previous: LastChange | null
+    ): ChangeClassification {
+        const classified = (source: ChangeSource, autoInserted = false) => ({ source, autoInserted });
+
+        if (event.reason === vscode.TextDocumentChangeReason.Undo) {
+            return classified(ChangeSource.Undo);
+        }
+        if (event.reason === vscode.TextDocumentChangeReason.Redo) {
+            return classified(ChangeSource.Redo);
+        }
+
+        if (this.isReload(event)) {
+            return classified(ChangeSource.External);
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.toString() !== documentUri) {
+            return classified(ChangeSource.External);
+        }
+
+        if (previous?.source === ChangeSource.Typed && previous.documentUri === documentUri && this.isAutoClosing(event)) {
+            return classified(ChangeSource.Typed, true);
+        }
+
+        if (!event.contentChanges.every(change => this.isNearCursor(change, editor.selections))) {
+            return classified(ChangeSource.Formatter);
+        }
+
+        if (event.contentChanges.some(change => this.isPasted(change.text))) {
+            return classified(ChangeSource.Pasted);
+        }
+
+        return classified(ChangeSource.Typed);
+    }
+
+    /**
+     * Checks if a change only inserts closing brackets, quotes or a closing tag
+     * @param event Text document change event
+     */
+    private isAutoClosing(event: vscode.TextDocumentChangeEvent): boolean {
+        return event.contentChanges.length > 0 &&
+               event.contentChanges.every(change => change.rangeLength === 0 && AUTO_CLOSING_TEXT.test(change.text));
+    }
+
+    /**
+     * Checks if a change is at one of the cursors, before or after the cursor moved past it
+     * @param change Content change
+     * @param selections Selections of the active editor
+     */
+    private isNearCursor(
+        change: vscode.TextDocumentContentChangeEvent,
+        selections: readonly vscode.Selection[]
+    ): boolean {
+        const insertedLines = change.text.split('\n').length - 1;
+        const firstLine = change.range.start.line;
+        const lastLine = change.range.end.line + insertedLines;
+
+        return selections.some(selection => selection.active.line >= firstLine && selection.active.line <= lastLine);
+    }
+
+    /**
+     * Checks if inserted text looks pasted: several lines with content, or a long run
+     * @param text Inserted text
+     */
+    private isPasted(text: string): boolean {
+        // Enter inserts line breaks and indentation only
+        const content = text.trim();
+        if (content.length >= PASTE_MIN_LENGTH) {
+            return true;
+        }
+        return text.includes('\n') && content.length > 0;
+    }
+
+    /**
+     * Disposes of the classifier; changes waiting for their batch are dropped
+     */
+    public dispose(): void {
+        if (this.flushTimeout) {
+            this.clock.clearTimeout(this.flushTimeout);
+            this.flushTimeout = null;
+        }
+        this.pendingChanges = [];
+        this.dirtyDocuments.clear();
+
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
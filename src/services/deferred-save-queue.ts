@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+
+/**
+ * Save postponed until the next green light
+ */
+interface QueuedSave {
+    document: vscode.TextDocument;
+    /** Text the user tried to save, restored once the save participant has run */
+    text: string;
+}
+
+/**
+ * Replacement of the smallest changed span between two texts
+ */
+interface TextReplacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Postpones saves made during red light.
+ *
+ * VS Code cannot cancel a save from an extension, so a deferred save writes
+ * the content that is already on disk: a save participant swaps the buffer
+ * back to the file's content, and once the save completes the user's text is
+ * put back, leaving the document dirty. Queued documents are saved for real
+ * by `flush`, which the input monitor calls when green light returns.
+ */
+export class DeferredSaveQueue {
+    private queued: Map<string, QueuedSave> = new Map();
+    private restoring: Set<Promise<void>> = new Set();
+
+    /**
+     * Defers a save that is about to happen
+     * @param event Will save text document event
+     * @returns True if the save was deferred, false if it has to go through
+     */
+    public defer(event: vscode.TextDocumentWillSaveEvent): boolean {
+        const document = event.document;
+
+        // Untitled documents have nothing on disk to keep; saving them opens a dialog
+        if (document.uri.scheme !== 'file') {
+            return false;
+        }
+
+        this.queued.set(document.uri.toString(), { document, text: document.getText() });
+        event.waitUntil(this.createDiskContentEdits(document));
+        return true;
+    }
+
+    /**
+     * Puts the user's text back after a deferred save has written the disk content
+     * @param document Saved document
+     */
+    public restore(document: vscode.TextDocument): Promise<void> {
+        const restore = this.restoreText(document);
+        this.restoring.add(restore);
+        restore.then(() => this.restoring.delete(restore));
+        return restore;
+    }
+
+    /**
+     * Replaces the saved disk content with the text the user tried to save
+     * @param document Saved document
+     */
+    private async restoreText(document: vscode.TextDocument): Promise<void> {
+        const entry = this.queued.get(document.uri.toString());
+        if (!entry) {
+            return;
+        }
+
+        const replacement = this.findReplacement(document.getText(), entry.text);
+        if (!replacement) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+            replacement.text
+        );
+
+        try {
+            const applied = await vscode.workspace.applyEdit(edit);
+            if (!applied) {
+                console.error(`Failed to restore unsaved changes in ${document.uri.toString()}`);
+            }
+        } catch (error) {
+            console.error('Failed to restore unsaved changes after a deferred save:', error);
+        }
+    }
+
+    /**
+     * Checks if a document has a deferred save
+     * @param document Text document
+     */
+    public isQueued(document: vscode.TextDocument): boolean {
+        return this.queued.has(document.uri.toString());
+    }
+
+    /**
+     * Gets the number of documents waiting to be saved
+     */
+    public getQueuedCount(): number {
+        return this.queued.size;
+    }
+
+    /**
+     * Saves every queued document that still has unsaved changes
+     */
+    public async flush(): Promise<void> {
+        const entries = [...this.queued.values()];
+        this.queued.clear();
+
+        // A save finishing right at the phase change must be dirty again before it is saved
+        await Promise.all(this.restoring);
+
+        for (const { document } of entries) {
+            if (document.isClosed || !document.isDirty) {
+                continue;
+            }
+
+            try {
+                const saved = await document.save();
+                if (!saved) {
+                    console.error(`Failed to save deferred document ${document.uri.toString()}`);
+                }
+            } catch (error) {
+                console.error('Failed to save deferred document:', error);
+            }
+        }
+    }
+
+    /**
+     * Forgets a document, e.g. when it is closed
+     * @param document Text document
+     */
+    public remove(document: vscode.TextDocument): void {
+        this.queued.delete(document.uri.toString());
+    }
+
+    /**
+     * Drops all queued saves
+     */
+    public clear(): void {
+        this.queued.clear();
+    }
+
+    /**
+     * Builds the save participant edits that make the buffer match the file on disk
+     * @param document Document being saved
+     * @returns Edits applied before the write
+     */
+    private async createDiskContentEdits(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(document.uri);
+            const diskText = await vscode.workspace.decode(bytes, { encoding: document.encoding });
+            const replacement = this.findReplacement(document.getText(), diskText);
+            if (!replacement) {
+                return [];
+            }
+
+            const range = new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end));
+            return [vscode.TextEdit.replace(range, replacement.text)];
+        } catch (error) {
+            // Without the disk content the save goes through; nothing needs restoring afterwards
+            this.queued.delete(document.uri.toString());
+            console.error(`Failed to defer save of ${document.uri.toString()}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Finds the smallest span that turns one text into another, so the cursor
+     * and undo history outside the changed span are left alone
+     * @param from Current text
+     * @param to Target text
+     * @returns Replacement, or undefined if the texts are equal
+     */
+    private findReplacement(from: string, to: string): TextReplacement | undefined {
+        if (from === to) {
+            return undefined;
+        }
+
+        let prefix = 0;
+        const maxPrefix = Math.min(from.length, to.length);
+        while (prefix < maxPrefix && from.charCodeAt(prefix) === to.charCodeAt(prefix)) {
+            prefix++;
+        }
+
+        let suffix = 0;
+        const maxSuffix = maxPrefix - prefix;
+        while (suffix < maxSuffix &&
+               from.charCodeAt(from.length - 1 - suffix) === to.charCodeAt(to.length - 1 - suffix)) {
+            suffix++;
+        }
+
+        return {
+            start: prefix,
+            end: from.length - suffix,
+            text: to.substring(prefix, to.length - suffix)
+        };
+    }
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings-manager';
+import { DocumentRulesSettings } from '../types/settings-types';
+
+/**
+ * Decides which documents are policed during red light.
+ *
+ * Rules come from the `documentRules` setting, which can be overridden per
+ * workspace folder. Include and exclude globs are relative to the document's
+ * workspace folder, or matched against the full path for other documents.
+ * Decisions are cached per document, so repeated checks while typing are cheap.
+ */
+export class DocumentFilter implements vscode.Disposable {
+    private static readonly NO_FOLDER_KEY = '';
+    private settingsManager: SettingsManager;
+    private rulesByFolder: Map<string, DocumentRulesSettings> = new Map();
+    private decisions: Map<string, boolean> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new DocumentFilter instance
+     * @param settingsManager Settings manager used to resolve the rules
+     */
+    constructor(settingsManager: SettingsManager) {
+        this.settingsManager = settingsManager;
+        this.setupListeners();
+    }
+
+    /**
+     * Checks if a document is covered by the document rules
+     * @param document Text document
+     * @returns True if the document should be monitored
+     */
+    public matches(document: vscode.TextDocument): boolean {
+        const uri = document.uri.toString();
+        let decision = this.decisions.get(uri);
+
+        if (decision === undefined) {
+            decision = this.evaluate(document);
+            this.decisions.set(uri, decision);
+        }
+
+        return decision;
+    }
+
+    /**
+     * Evaluates the document rules for a document
+     * @param document Text document
+     * @returns True if the document should be monitored
+     */
+    private evaluate(document: vscode.TextDocument): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const rules = this.getRules(folder, document.uri);
+
+        if (!rules.schemes.includes(document.uri.scheme)) {
+            return false;
+        }
+
+        if (rules.languages.length > 0 && !rules.languages.includes(document.languageId)) {
+            return false;
+        }
+
+        if (rules.excludeLanguages.includes(document.languageId)) {
+            return false;
+        }
+
+        if (rules.include.length > 0 && !this.matchesAnyPattern(document, rules.include, folder)) {
+            return false;
+        }
+
+        return !this.matchesAnyPattern(document, rules.exclude, folder);
+    }
+
+    /**
+     * Gets the rules for a workspace folder, resolving them on first use
+     * @param folder Workspace folder of the document, if any
+     * @param uri Document URI used as the configuration scope
+     * @returns Document rules
+     */
+    private getRules(folder: vscode.WorkspaceFolder | undefined, uri: vscode.Uri): DocumentRulesSettings {
+        const key = folder ? folder.uri.toString() : DocumentFilter.NO_FOLDER_KEY;
+        let rules = this.rulesByFolder.get(key);
+
+        if (!rules) {
+            rules = this.settingsManager.getDocumentRules(folder ? folder.uri : uri);
+            this.rulesByFolder.set(key, rules);
+        }
+
+        return rules;
+    }
+
+    /**
+     * Checks if a document matches any of the given glob patterns
+     * @param document Text document
+     * @param patterns Glob patterns
+     * @param folder Workspace folder the patterns are relative to
+     */
+    private matchesAnyPattern(
+        document: vscode.TextDocument,
+        patterns: readonly string[],
+        folder: vscode.WorkspaceFolder | undefined
+    ): boolean {
+        return patterns.some(pattern => {
+            const glob = folder ? new vscode.RelativePattern(folder, pattern) : pattern;
+            return vscode.languages.match({ pattern: glob }, document) > 0;
+        });
+    }
+
+    /**
+     * Drops cached rules when the settings, team config, workspace folders or open documents change
+     */
+    private setupListeners(): void {
+        const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('redLightGreenLight.documentRules')) {
+                this.clearCache();
+            }
+        });
+        this.disposables.push(configurationDisposable);
+
+        const foldersDisposable = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this.clearCache();
+        });
+        this.disposables.push(foldersDisposable);
+
+        const teamConfigDisposable = this.settingsManager.onTeamConfigChange(() => {
+            this.clearCache();
+        });
+        this.disposables.push(teamConfigDisposable);
+
+        // A language change closes and reopens the document, which also drops its decision
+        const closeDisposable = vscode.workspace.onDidCloseTextDocument(document => {
+            this.decisions.delete(document.uri.toString());
+        });
+        this.disposables.push(closeDisposable);
+    }
+
+    /**
+     * Drops cached rules and decisions
+     */
+    private clearCache(): void {
+        this.rulesByFolder.clear();
+        this.decisions.clear();
+    }
+
+    /**
+     * Disposes of the document filter and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+        this.clearCache();
+    }
+}
@@ -1,30 +1,116 @@
 import * as vscode from 'vscode';
 import { GameEngine } from '../game/game-engine';
-import { GameState, RedLightViolationEvent } from '../types/game-types';
+import { PenaltyLadder } from '../game/penalty-ladder';
+import { DocumentFilter } from './document-filter';
+import { DeferredSaveQueue } from './deferred-save-queue';
+import { BlockedInput, TypingBlocker } from './typing-blocker';
+import { ChangeClassification, ChangeClassifier } from './change-classifier';
+import { Clock, TimerHandle } from '../game/clock';
+import {
+    ChangeSource,
+    GameState,
+    PenaltyLadderConfig,
+    PenaltyStep,
+    RedLightAction,
+    RedLightViolationEvent,
+    ViolationKind
+} from '../types/game-types';
+import { ChangeSourceSettings, DEFAULT_SETTINGS, HardModeSettings } from '../types/settings-types';
+
+/**
+ * Largest document, in characters, that is monitored
+ */
+const MAX_MONITORED_DOCUMENT_LENGTH = 1_000_000;
+
+/**
+ * Time in milliseconds after which a movement in the same document counts
+ * again. A held arrow key or a wheel scroll is one movement, and the cursor
+ * and scroll changes that follow an edit belong to that edit.
+ */
+const MOVEMENT_SETTLE_MS = 500;
+
+/**
+ * Time in milliseconds a red light save may take. Edits in the document are
+ * part of the save until it completes, or until this time has passed in case
+ * the save fails or is cancelled and never completes.
+ */
+const SAVE_TIMEOUT_MS = 5000;
+
+/**
+ * Last edit or movement seen in a document
+ */
+interface LastMovement {
+    readonly documentUri: string;
+    readonly time: number;
+}
 
 /**
  * Violation event listener type
  */
 export type ViolationListener = (event: RedLightViolationEvent) => void;
 
+/**
+ * Monitored document change, once its source is known
+ */
+export interface ClassifiedChangeEvent {
+    readonly change: vscode.TextDocumentChangeEvent;
+    readonly classification: ChangeClassification;
+    /** Game state when the change was made */
+    readonly state: GameState;
+}
+
+/**
+ * Classified change listener type
+ */
+export type ClassifiedChangeListener = (event: ClassifiedChangeEvent) => void;
+
 /**
  * Monitors text input and enforces red light rules
  */
 export class InputMonitor implements vscode.Disposable {
     private gameEngine: GameEngine;
+    private documentFilter: DocumentFilter;
+    private clock: Clock;
     private violationListeners: ViolationListener[] = [];
+    private changeListeners: ClassifiedChangeListener[] = [];
     private disposables: vscode.Disposable[] = [];
     private isMonitoring: boolean = false;
-    private redLightStartTime: number = 0;
+    /** When the light turned red, or a paused red light resumed; consecutive red phases share it */
+    private gracePeriodStart: number | null = null;
     private gracePeriod: number = 0.5; // Default grace period in seconds
+    private monitorTerminal: boolean = false;
+    private deferSaves: boolean = false;
+    private blockTyping: boolean = false;
+    private typingBlocker: TypingBlocker;
+    private changeSources: ChangeSourceSettings = DEFAULT_SETTINGS.changeSources;
+    private changeClassifier: ChangeClassifier;
+    private hardMode: HardModeSettings = DEFAULT_SETTINGS.hardMode;
+    private lastMovement: LastMovement | null = null;
+    private deferredSaves: DeferredSaveQueue = new DeferredSaveQueue();
+    /** Documents being saved, with the timeout of saves that have not completed yet */
+    private savingDocuments: Map<string, TimerHandle | null> = new Map();
+    private documentSnapshots: Map<string, string> = new Map();
+    private revertingDocuments: Set<string> = new Set();
+    private pendingReverts: Map<string, Promise<void>> = new Map();
+    private penaltyLadder: PenaltyLadder;
+    private lockedUntil: number = 0;
+    private lockTimeout: TimerHandle | null = null;
 
     /**
      * Creates a new InputMonitor instance
      * @param gameEngine Game engine instance to check game state
+     * @param documentFilter Filter deciding which documents are monitored
      */
-    constructor(gameEngine: GameEngine) {
+    constructor(gameEngine: GameEngine, documentFilter: DocumentFilter) {
         this.gameEngine = gameEngine;
+        this.documentFilter = documentFilter;
+        this.clock = gameEngine.getClock();
+        this.penaltyLadder = new PenaltyLadder(gameEngine.getConfig().penaltyLadder);
+        this.typingBlocker = new TypingBlocker(() => this.shouldBlockInput(), input => this.onBlockedInput(input));
+        this.changeClassifier = new ChangeClassifier(this.clock);
         this.setupTextDocumentListeners();
+        this.setupTerminalListeners();
+        this.setupEditorListeners();
         this.setupGameStateListener();
     }
 
@@ -33,6 +119,7 @@ export class InputMonitor implements vscode.Disposable {
      */
     public startMonitoring(): void {
         this.isMonitoring = true;
+        this.syncTypingBlock();
     }
 
     /**
@@ -40,6 +127,7 @@ export class InputMonitor implements vscode.Disposable {
      */
     public stopMonitoring(): void {
         this.isMonitoring = false;
+        this.typingBlocker.release();
     }
 
     /**
@@ -57,6 +145,79 @@ export class InputMonitor implements vscode.Disposable {
         this.gracePeriod = gracePeriod;
     }
 
+    /**
+     * Enables or disables red light enforcement in the integrated terminal
+     * @param enabled Whether terminal activity counts as movement
+     */
+    public updateTerminalMonitoring(enabled: boolean): void {
+        this.monitorTerminal = enabled;
+    }
+
+    /**
+     * Updates which editor movements count as violations in hard mode
+     * @param hardMode Hard mode settings
+     */
+    public updateHardMode(hardMode: HardModeSettings): void {
+        this.hardMode = hardMode;
+    }
+
+    /**
+     * Enables or disables postponing saves made during red light
+     * @param enabled Whether red light saves are deferred to the next green light
+     */
+    public updateDeferredSaves(enabled: boolean): void {
+        this.deferSaves = enabled;
+        if (!enabled) {
+            this.deferredSaves.clear();
+        }
+    }
+
+    /**
+     * Updates which sources of document changes count as violations
+     * @param changeSources Change source settings
+     */
+    public updateChangeSources(changeSources: ChangeSourceSettings): void {
+        this.changeSources = changeSources;
+    }
+
+    /**
+     * Enables or disables blocking typing and pasting during red light
+     * @param enabled Whether red light input is dropped instead of landing
+     */
+    public updateTypingBlock(enabled: boolean): void {
+        this.blockTyping = enabled;
+        this.syncTypingBlock();
+    }
+
+    /**
+     * Checks if typing and pasting are currently intercepted
+     */
+    public isTypingBlocked(): boolean {
+        return this.typingBlocker.isEngaged();
+    }
+
+    /**
+     * Gets the number of documents whose save waits for the next green light
+     */
+    public getDeferredSaveCount(): number {
+        return this.deferredSaves.getQueuedCount();
+    }
+
+    /**
+     * Updates the penalty ladder configuration
+     * @param config Penalty ladder configuration
+     */
+    public updatePenaltyLadder(config: PenaltyLadderConfig): void {
+        this.penaltyLadder.updateConfig(config);
+    }
+
+    /**
+     * Checks if typing is currently locked by a penalty
+     */
+    public isTypingLocked(): boolean {
+        return this.clock.now() < this.lockedUntil;
+    }
+
     /**
      * Adds a listener for red light violations
      * @param listener Violation event listener
@@ -72,6 +233,23 @@ export class InputMonitor implements vscode.Disposable {
         });
     }
 
+    /**
+     * Adds a listener for monitored document changes made during green and yellow
+     * light, or during red light after the grace period, once their source is known.
+     * Changes rolled back by a typing lock are not reported.
+     * @param listener Classified change listener
+     */
+    public onClassifiedChange(listener: ClassifiedChangeListener): vscode.Disposable {
+        this.changeListeners.push(listener);
+
+        return new vscode.Disposable(() => {
+            const index = this.changeListeners.indexOf(listener);
+            if (index >= 0) {
+                this.changeListeners.splice(index, 1);
+            }
+        });
+    }
+
     /**
      * Sets up text document change listeners
      */
@@ -88,19 +266,175 @@ export class InputMonitor implements vscode.Disposable {
         );
         this.disposables.push(willSaveDisposable);
 
+        const didSaveDisposable = vscode.workspace.onDidSaveTextDocument(
+            this.onDidSaveTextDocument.bind(this)
+        );
+        this.disposables.push(didSaveDisposable);
+
+        // Snapshot documents opened during red light so their edits can be reverted
+        const openDisposable = vscode.workspace.onDidOpenTextDocument(document => {
+            if (this.documentSnapshots.size > 0 && this.shouldMonitorDocument(document)) {
+                this.documentSnapshots.set(document.uri.toString(), document.getText());
+            }
+        });
+        this.disposables.push(openDisposable);
+
+        const closeDisposable = vscode.workspace.onDidCloseTextDocument(document => {
+            this.documentSnapshots.delete(document.uri.toString());
+            this.endSave(document.uri.toString());
+            this.deferredSaves.remove(document);
+        });
+        this.disposables.push(closeDisposable);
+
         // Listen for keyboard input (if available through VSCode API)
         this.setupKeyboardListeners();
     }
 
     /**
-     * Sets up game state change listener to track red light start time
+     * Sets up terminal listeners for commands run and first input in a terminal
+     */
+    private setupTerminalListeners(): void {
+        // Requires shell integration, which reports the command line of each execution
+        const executionDisposable = vscode.window.onDidStartTerminalShellExecution(event => {
+            this.onTerminalActivity(event.terminal, event.execution.commandLine.value);
+        });
+        this.disposables.push(executionDisposable);
+
+        // Fires when a terminal first receives input, including shells without integration
+        const stateDisposable = vscode.window.onDidChangeTerminalState(terminal => {
+            if (terminal.state.isInteractedWith) {
+                this.onTerminalActivity(terminal, 'Terminal input');
+            }
+        });
+        this.disposables.push(stateDisposable);
+    }
+
+    /**
+     * Sets up editor listeners for the movements policed in hard mode
+     */
+    private setupEditorListeners(): void {
+        const selectionDisposable = vscode.window.onDidChangeTextEditorSelection(event => {
+            const position = event.selections[0]?.active;
+            const changeText = position
+                ? `Cursor moved to ${position.line + 1}:${position.character + 1}`
+                : 'Cursor moved';
+            this.onEditorMovement(event.textEditor, ViolationKind.Selection, changeText);
+        });
+        this.disposables.push(selectionDisposable);
+
+        const scrollDisposable = vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+            const firstLine = event.visibleRanges[0]?.start.line;
+            const changeText = firstLine !== undefined ? `Scrolled to line ${firstLine + 1}` : 'Scrolled';
+            this.onEditorMovement(event.textEditor, ViolationKind.Scroll, changeText);
+        });
+        this.disposables.push(scrollDisposable);
+
+        // Fires with undefined when focus leaves the editors, which is not a switch
+        const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor) {
+                this.onEditorMovement(editor, ViolationKind.EditorSwitch, 'Switched editor');
+            }
+        });
+        this.disposables.push(activeEditorDisposable);
+    }
+
+    /**
+     * Sets up game state and phase change listeners to track red light start time
      */
     private setupGameStateListener(): void {
         this.gameEngine.onStateChange((event) => {
+            // Timer ticks repeat the current state
+            if (event.previousState === event.currentState) {
+                return;
+            }
+
+            // Resuming a paused red light grants a fresh grace period from the moment of resuming.
+            // A new red light sets it from its phase change, below.
             if (event.currentState === GameState.RedLight) {
-                this.redLightStartTime = Date.now();
+                if (event.previousState === GameState.Paused) {
+                    this.gracePeriodStart = this.clock.monotonicNow();
+                }
+                this.changeClassifier.reset();
+            } else if (event.currentState !== GameState.Paused) {
+                this.gracePeriodStart = null;
+            }
+
+            // Each session climbs the penalty ladder from the bottom
+            if (event.previousState === GameState.Stopped || event.currentState === GameState.Stopped) {
+                this.penaltyLadder.reset();
+                this.unlockTyping();
+            }
+
+            // Deferred saves are written once red light is over, unless the game is only paused
+            if (event.currentState === GameState.GreenLight || event.currentState === GameState.Stopped) {
+                this.endAllSaves();
+                this.deferredSaves.flush();
+            }
+
+            // Keep document snapshots only while red light edits may need reverting
+            if (event.currentState === GameState.RedLight && this.needsDocumentSnapshots()) {
+                this.captureDocumentSnapshots();
+            } else if (event.currentState !== GameState.RedLight && !this.isTypingLocked()) {
+                this.documentSnapshots.clear();
+            }
+
+            this.syncTypingBlock();
+        });
+
+        // The grace period counts from red, whether it follows green directly or the yellow
+        // light, during which edits are allowed. A red phase that follows another one
+        // continues the same red light and grants no new grace period.
+        const phaseChangeDisposable = this.gameEngine.onPhaseChange(event => {
+            if (event.currentState === GameState.RedLight && event.previousState !== GameState.RedLight) {
+                this.gracePeriodStart = this.gameEngine.getPhaseStartTime();
             }
         });
+        this.disposables.push(phaseChangeDisposable);
+    }
+
+    /**
+     * Intercepts typing for the length of a red phase when blocking is on, and hands it back otherwise
+     */
+    private syncTypingBlock(): void {
+        if (this.blockTyping && this.isMonitoring && this.gameEngine.getCurrentState() === GameState.RedLight) {
+            this.typingBlocker.engage();
+        } else {
+            this.typingBlocker.release();
+        }
+    }
+
+    /**
+     * Checks if an intercepted keystroke or paste should be dropped
+     */
+    private shouldBlockInput(): boolean {
+        if (!this.isMonitoring || !this.gameEngine.isActive() ||
+            this.gameEngine.getCurrentState() !== GameState.RedLight || this.isWithinGracePeriod()) {
+            return false;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        return editor !== undefined && this.shouldMonitorDocument(editor.document);
+    }
+
+    /**
+     * Counts dropped input as a violation; a burst of keystrokes counts once
+     * @param input Input that was dropped
+     */
+    private onBlockedInput(input: BlockedInput): void {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const uri = editor.document.uri.toString();
+        const isNewMovement = !this.isSameMovement(uri);
+        this.recordMovement(uri);
+        if (!isNewMovement) {
+            return;
+        }
+
+        const changeText = input.command === 'paste' ? 'Blocked paste' : `Blocked: "${input.text}"`;
+        this.reportMovement(uri, ViolationKind.Edit, changeText, input.text.length);
     }
 
     /**
@@ -108,13 +442,10 @@ export class InputMonitor implements vscode.Disposable {
      * @returns True if within grace period, false otherwise
      */
     private isWithinGracePeriod(): boolean {
-        if (this.redLightStartTime === 0) {
-            return false; // No red light start time recorded
-        }
-        
-        const currentTime = Date.now();
-        const timeSinceRedLight = (currentTime - this.redLightStartTime) / 1000; // Convert to seconds
-        
+        // The phase start is the exact deadline of the previous phase on the timer's monotonic clock
+        const redLightStartTime = this.gracePeriodStart ?? this.gameEngine.getPhaseStartTime();
+        const timeSinceRedLight = (this.clock.monotonicNow() - redLightStartTime) / 1000; // Convert to seconds
+
         return timeSinceRedLight <= this.gracePeriod;
     }
 
@@ -123,23 +454,75 @@ export class InputMonitor implements vscode.Disposable {
      * @param event Text document change event
      */
     private onTextDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        // Runs on every keystroke, so the cheapest checks come first
+        if (!this.isMonitoring || !this.gameEngine.isActive()) {
+            return;
+        }
+
+        // Green light edits need no handling unless they are listened to, or a lock or one of our reverts is in progress
+        const state = this.gameEngine.getCurrentState();
+        if (state !== GameState.RedLight &&
+            this.changeListeners.length === 0 &&
+            !this.isTypingLocked() &&
+            this.revertingDocuments.size === 0) {
+            return;
+        }
+
         if (!this.shouldMonitorDocument(event.document)) {
             return;
         }
 
-        if (!this.isMonitoring || !this.gameEngine.isActive()) {
+        const uri = event.document.uri.toString();
+
+        // Cursor and scroll changes caused by this edit are part of it
+        this.recordMovement(uri);
+
+        // Our own revert edits and edits made while saving (e.g. format on save) are not violations
+        if (this.revertingDocuments.has(uri) || this.savingDocuments.has(uri)) {
+            this.updateDocumentSnapshot(event.document);
             return;
         }
 
-        // Check if we're in red light state
-        if (this.gameEngine.getCurrentState() === GameState.RedLight) {
-            // Check if we're still in grace period
-            if (this.isWithinGracePeriod()) {
-                return; // Allow typing during grace period
+        // While locked, every edit is rolled back without counting as a violation, whatever its source
+        if (this.isTypingLocked()) {
+            const revertEdit = this.createRevertEdit(event);
+            this.updateDocumentSnapshot(event.document);
+            if (revertEdit) {
+                this.attemptUndoChange(event.document, revertEdit, event.document.version);
             }
-            
-            this.handleRedLightViolation(event);
+            return;
+        }
+
+        // Check if we're in red light state
+        if (state !== GameState.RedLight) {
+            this.changeClassifier.classify(event, classification => {
+                this.notifyClassifiedChange({ change: event, classification, state });
+            });
+            return;
+        }
+
+        // Check if we're still in grace period
+        if (this.isWithinGracePeriod()) {
+            this.updateDocumentSnapshot(event.document);
+            return; // Allow typing during grace period
         }
+
+        // Build the revert before the classification is known, while the document matches the event
+        const revertEdit = this.needsDocumentSnapshots() ? this.createRevertEdit(event) : undefined;
+        const version = event.document.version;
+        this.updateDocumentSnapshot(event.document);
+
+        // Undo, reloads from disk, formatters and the like only count if their source is switched on
+        this.changeClassifier.classify(event, classification => {
+            this.notifyClassifiedChange({ change: event, classification, state });
+            if (classification.autoInserted || !this.changeSources[classification.source]) {
+                return;
+            }
+            // The game may have stopped before the change was classified
+            if (this.isMonitoring && this.gameEngine.isActive()) {
+                this.handleRedLightViolation(event, classification.source, revertEdit, version);
+            }
+        });
     }
 
     /**
@@ -147,11 +530,11 @@ export class InputMonitor implements vscode.Disposable {
      * @param event Will save text document event
      */
     private onWillSaveTextDocument(event: vscode.TextDocumentWillSaveEvent): void {
-        if (!this.shouldMonitorDocument(event.document)) {
+        if (!this.isMonitoring || !this.gameEngine.isActive()) {
             return;
         }
 
-        if (!this.isMonitoring || !this.gameEngine.isActive()) {
+        if (!this.shouldMonitorDocument(event.document)) {
             return;
         }
 
@@ -162,18 +545,209 @@ export class InputMonitor implements vscode.Disposable {
                 return; // Allow saving during grace period
             }
             
-            // We can't easily prevent saving, but we can log the violation
+            // One save is one violation, whatever the save participants edit meanwhile
+            const uri = event.document.uri.toString();
+            this.beginSave(event.document);
+
+            // We can't prevent saving, but a deferred save keeps the previous content on disk
+            const deferred = this.deferSaves && this.deferredSaves.defer(event);
+            const timestamp = this.clock.now();
+            const penalty = this.resolvePenalty(timestamp);
             const violationEvent: RedLightViolationEvent = {
-                timestamp: Date.now(),
-                documentUri: event.document.uri.toString(),
-                changeText: 'Document save attempt',
-                actionTaken: this.gameEngine.getConfig().redLightAction
+                timestamp,
+                documentUri: uri,
+                kind: ViolationKind.Save,
+                changeText: deferred ? 'Document save deferred' : 'Document save attempt',
+                actionTaken: penalty.action,
+                lockDuration: penalty.lockDuration
             };
             
+            if (penalty.action === RedLightAction.Lock) {
+                this.lockTyping(penalty.lockDuration ?? 0);
+            }
             this.notifyViolation(violationEvent);
         }
     }
 
+    /**
+     * Handles did save text document events
+     * @param document Saved document
+     */
+    private onDidSaveTextDocument(document: vscode.TextDocument): void {
+        if (this.savingDocuments.has(document.uri.toString())) {
+            this.completeSave(document);
+        }
+    }
+
+    /**
+     * Starts exempting a document's edits while it is saved during red light
+     * @param document Document being saved
+     */
+    private beginSave(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        this.endSave(uri);
+        this.savingDocuments.set(uri, this.clock.setTimeout(() => this.completeSave(document), SAVE_TIMEOUT_MS));
+    }
+
+    /**
+     * Ends a save once it completed or timed out; the edits that put back the text
+     * of a deferred save are still part of it
+     * @param document Saved document
+     */
+    private completeSave(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        const timeout = this.savingDocuments.get(uri);
+        if (timeout) {
+            this.clock.clearTimeout(timeout);
+        }
+        this.savingDocuments.set(uri, null);
+
+        this.deferredSaves.restore(document).then(() => {
+            // A new save may have started meanwhile
+            if (this.savingDocuments.get(uri) === null) {
+                this.savingDocuments.delete(uri);
+            }
+        });
+    }
+
+    /**
+     * Stops exempting a document's edits
+     * @param uri Document URI
+     */
+    private endSave(uri: string): void {
+        const timeout = this.savingDocuments.get(uri);
+        if (timeout) {
+            this.clock.clearTimeout(timeout);
+        }
+        this.savingDocuments.delete(uri);
+    }
+
+    /**
+     * Stops exempting the edits of every document being saved
+     */
+    private endAllSaves(): void {
+        for (const uri of [...this.savingDocuments.keys()]) {
+            this.endSave(uri);
+        }
+    }
+
+    /**
+     * Handles terminal activity, which counts as movement during red light
+     * @param terminal Terminal the activity happened in
+     * @param changeText Command line or description of the activity
+     */
+    private onTerminalActivity(terminal: vscode.Terminal, changeText: string): void {
+        if (!this.monitorTerminal || !this.isMonitoring || !this.gameEngine.isActive()) {
+            return;
+        }
+
+        if (this.gameEngine.getCurrentState() !== GameState.RedLight || this.isWithinGracePeriod()) {
+            return;
+        }
+
+        this.reportMovement(terminal.name, ViolationKind.Terminal, changeText);
+    }
+
+    /**
+     * Handles cursor, scroll and active editor changes, which count as movement in hard mode
+     * @param editor Editor that moved
+     * @param kind Kind of movement
+     * @param changeText Description of the movement
+     */
+    private onEditorMovement(editor: vscode.TextEditor, kind: ViolationKind, changeText: string): void {
+        if (!this.hardMode.enabled || !this.isMovementKindEnabled(kind)) {
+            return;
+        }
+
+        if (!this.isMonitoring || !this.gameEngine.isActive() ||
+            this.gameEngine.getCurrentState() !== GameState.RedLight) {
+            return;
+        }
+
+        if (!this.shouldMonitorDocument(editor.document)) {
+            return;
+        }
+
+        const uri = editor.document.uri.toString();
+
+        // Our own revert and save edits move the cursor too
+        if (this.revertingDocuments.has(uri) || this.savingDocuments.has(uri)) {
+            return;
+        }
+
+        const isNewMovement = !this.isSameMovement(uri);
+        this.recordMovement(uri);
+        if (!isNewMovement || this.isWithinGracePeriod()) {
+            return;
+        }
+
+        this.reportMovement(uri, kind, changeText);
+    }
+
+    /**
+     * Checks if a hard mode movement kind is switched on
+     * @param kind Kind of movement
+     */
+    private isMovementKindEnabled(kind: ViolationKind): boolean {
+        switch (kind) {
+            case ViolationKind.Selection:
+                return this.hardMode.selection;
+            case ViolationKind.Scroll:
+                return this.hardMode.scroll;
+            case ViolationKind.EditorSwitch:
+                return this.hardMode.editorSwitch;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Checks if a movement continues the last edit or movement in the same document
+     * @param documentUri Document URI
+     */
+    private isSameMovement(documentUri: string): boolean {
+        return this.lastMovement !== null &&
+               this.lastMovement.documentUri === documentUri &&
+               this.clock.monotonicNow() - this.lastMovement.time < MOVEMENT_SETTLE_MS;
+    }
+
+    /**
+     * Remembers an edit or movement so the changes that follow it are not counted again
+     * @param documentUri Document URI
+     */
+    private recordMovement(documentUri: string): void {
+        this.lastMovement = { documentUri, time: this.clock.monotonicNow() };
+    }
+
+    /**
+     * Reports a movement that cannot be undone, such as a terminal command or a scroll
+     * @param documentUri Document URI or terminal name
+     * @param kind Kind of movement
+     * @param changeText Description of the movement
+     * @param insertedCharacters Characters the movement would have inserted, for blocked input
+     */
+    private reportMovement(documentUri: string, kind: ViolationKind, changeText: string, insertedCharacters?: number): void {
+        const timestamp = this.clock.now();
+        const penalty = this.resolvePenalty(timestamp);
+
+        // There is no edit to roll back, so a revert falls back to a warning
+        const actionTaken = penalty.action === RedLightAction.Revert ? RedLightAction.Warn : penalty.action;
+        const violationEvent: RedLightViolationEvent = {
+            timestamp,
+            documentUri,
+            kind,
+            changeText,
+            insertedCharacters,
+            actionTaken,
+            lockDuration: penalty.lockDuration
+        };
+
+        if (actionTaken === RedLightAction.Lock) {
+            this.lockTyping(penalty.lockDuration ?? 0);
+        }
+        this.notifyViolation(violationEvent);
+    }
+
     /**
      * Sets up keyboard listeners (VSCode has limited keyboard access)
      */
@@ -186,24 +760,44 @@ export class InputMonitor implements vscode.Disposable {
     /**
      * Handles red light violations
      * @param event Text document change event
+     * @param changeSource Where the change came from
+     * @param revertEdit Edit rolling the change back, if reverts may be needed
+     * @param version Document version the revert edit was built against
      */
-    private handleRedLightViolation(event: vscode.TextDocumentChangeEvent): void {
+    private handleRedLightViolation(
+        event: vscode.TextDocumentChangeEvent,
+        changeSource: ChangeSource,
+        revertEdit: vscode.WorkspaceEdit | undefined,
+        version: number
+    ): void {
         // Extract change information
         const changeText = this.extractChangeText(event);
         
         // Create violation event
+        const timestamp = this.clock.now();
+        const penalty = this.resolvePenalty(timestamp);
         const violationEvent: RedLightViolationEvent = {
-            timestamp: Date.now(),
+            timestamp,
             documentUri: event.document.uri.toString(),
+            kind: ViolationKind.Edit,
+            changeSource,
             changeText,
-            actionTaken: this.gameEngine.getConfig().redLightAction
+            insertedCharacters: event.contentChanges.reduce((total, change) => total + change.text.length, 0),
+            actionTaken: penalty.action,
+            lockDuration: penalty.lockDuration
         };
 
+        if (penalty.action === RedLightAction.Lock) {
+            this.lockTyping(penalty.lockDuration ?? 0);
+        }
+
         // Notify violation listeners
         this.notifyViolation(violationEvent);
 
-        // Attempt to undo the change (limited success due to VSCode API constraints)
-        this.attemptUndoChange(event);
+        const shouldRevert = penalty.action === RedLightAction.Revert || penalty.action === RedLightAction.Lock;
+        if (shouldRevert && revertEdit) {
+            this.attemptUndoChange(event.document, revertEdit, version);
+        }
     }
 
     /**
@@ -228,17 +822,163 @@ export class InputMonitor implements vscode.Disposable {
     }
 
     /**
-     * Attempts to undo a change (limited by VSCode API)
+     * Determines the penalty for a new violation
+     * @param timestamp Violation time in milliseconds
+     * @returns Penalty step to apply
+     */
+    private resolvePenalty(timestamp: number): PenaltyStep {
+        const configuredAction = this.gameEngine.getConfig().redLightAction;
+
+        if (!this.penaltyLadder.isEnabled()) {
+            return { violations: 0, action: configuredAction };
+        }
+        return this.penaltyLadder.recordViolation(timestamp, configuredAction);
+    }
+
+    /**
+     * Locks typing for the given duration; edits made meanwhile are reverted
+     * @param durationSeconds Lock duration in seconds
+     */
+    private lockTyping(durationSeconds: number): void {
+        if (durationSeconds <= 0) {
+            return;
+        }
+
+        if (this.documentSnapshots.size === 0) {
+            this.captureDocumentSnapshots();
+        }
+
+        this.lockedUntil = Math.max(this.lockedUntil, this.clock.now() + durationSeconds * 1000);
+
+        if (this.lockTimeout) {
+            this.clock.clearTimeout(this.lockTimeout);
+        }
+        this.lockTimeout = this.clock.setTimeout(() => this.unlockTyping(), this.lockedUntil - this.clock.now());
+    }
+
+    /**
+     * Ends a typing lock
+     */
+    private unlockTyping(): void {
+        if (this.lockTimeout) {
+            this.clock.clearTimeout(this.lockTimeout);
+            this.lockTimeout = null;
+        }
+        this.lockedUntil = 0;
+
+        if (this.gameEngine.getCurrentState() !== GameState.RedLight) {
+            this.documentSnapshots.clear();
+        }
+    }
+
+    /**
+     * Checks if edits may need reverting, which requires document snapshots
+     */
+    private needsDocumentSnapshots(): boolean {
+        return this.gameEngine.getConfig().redLightAction === RedLightAction.Revert ||
+               this.penaltyLadder.usesAction(RedLightAction.Revert) ||
+               this.penaltyLadder.usesAction(RedLightAction.Lock);
+    }
+
+    /**
+     * Builds a workspace edit that rolls back every content change of an event
      * @param event Text document change event
+     * @returns Revert edit, or undefined if the replaced text is unknown
+     */
+    private createRevertEdit(event: vscode.TextDocumentChangeEvent): vscode.WorkspaceEdit | undefined {
+        const document = event.document;
+        const snapshot = this.documentSnapshots.get(document.uri.toString());
+
+        // Content changes are non-overlapping and relative to the document before the event
+        const changes = [...event.contentChanges].sort((a, b) => a.rangeOffset - b.rangeOffset);
+        const edit = new vscode.WorkspaceEdit();
+        let offsetDelta = 0;
+
+        for (const change of changes) {
+            if (change.rangeLength > 0 && snapshot === undefined) {
+                console.warn(`Cannot revert red light change in ${document.uri.toString()}: replaced text unknown`);
+                return undefined;
+            }
+
+            const replacedText = change.rangeLength > 0
+                ? snapshot!.substring(change.rangeOffset, change.rangeOffset + change.rangeLength)
+                : '';
+            const start = change.rangeOffset + offsetDelta;
+            const range = new vscode.Range(
+                document.positionAt(start),
+                document.positionAt(start + change.text.length)
+            );
+
+            edit.replace(document.uri, range, replacedText);
+            offsetDelta += change.text.length - change.rangeLength;
+        }
+
+        return edit;
+    }
+
+    /**
+     * Reverts a red light change, one revert per document at a time
+     * @param document Document the change was made in
+     * @param edit Revert edit built for the change
+     * @param expectedVersion Document version the revert edit was built against
+     */
+    private attemptUndoChange(
+        document: vscode.TextDocument,
+        edit: vscode.WorkspaceEdit,
+        expectedVersion: number
+    ): Promise<void> {
+        const uri = document.uri.toString();
+        const previous = this.pendingReverts.get(uri) ?? Promise.resolve();
+
+        const revert = previous.then(async () => {
+            // Positions are only valid for the version the edit was built against
+            if (document.version !== expectedVersion) {
+                console.warn(`Skipping revert in ${uri}: document changed before it could be applied`);
+                return;
+            }
+
+            this.revertingDocuments.add(uri);
+            try {
+                const applied = await vscode.workspace.applyEdit(edit);
+                if (!applied) {
+                    console.warn(`Failed to revert red light change in ${uri}`);
+                }
+            } catch (error) {
+                console.warn('Failed to revert change during red light:', error);
+            } finally {
+                this.revertingDocuments.delete(uri);
+            }
+        });
+
+        this.pendingReverts.set(uri, revert);
+        revert.then(() => {
+            if (this.pendingReverts.get(uri) === revert) {
+                this.pendingReverts.delete(uri);
+            }
+        });
+        return revert;
+    }
+
+    /**
+     * Captures the text of open monitored documents at the start of red light
+     */
+    private captureDocumentSnapshots(): void {
+        this.documentSnapshots.clear();
+        for (const document of vscode.workspace.textDocuments) {
+            if (this.shouldMonitorDocument(document)) {
+                this.documentSnapshots.set(document.uri.toString(), document.getText());
+            }
+        }
+    }
+
+    /**
+     * Refreshes the snapshot of a document that is being tracked for reverts
+     * @param document Text document
      */
-    private async attemptUndoChange(event: vscode.TextDocumentChangeEvent): Promise<void> {
-        // Note: Block action has been removed. This method is kept for potential future use
-        // or if user manually wants to undo after a warning
-        try {
-            // Could be used as an optional feature in the future
-            console.log('Change detected during red light, but no automatic undo configured');
-        } catch (error) {
-            console.warn('Failed to handle change during red light:', error);
+    private updateDocumentSnapshot(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        if (this.documentSnapshots.has(uri)) {
+            this.documentSnapshots.set(uri, document.getText());
         }
     }
 
@@ -248,8 +988,8 @@ export class InputMonitor implements vscode.Disposable {
      * @returns True if document should be monitored
      */
     private shouldMonitorDocument(document: vscode.TextDocument): boolean {
-        // Skip certain document types
-        if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') {
+        // Skip documents excluded by the configured rules
+        if (!this.documentFilter.matches(document)) {
             return false;
         }
 
@@ -260,13 +1000,25 @@ export class InputMonitor implements vscode.Disposable {
         }
 
         // Skip large files (performance consideration)
-        if (document.getText().length > 1000000) { // 1MB limit
+        if (this.getDocumentLength(document) > MAX_MONITORED_DOCUMENT_LENGTH) {
             return false;
         }
 
         return true;
     }
 
+    /**
+     * Gets the length of a document without copying its text
+     * @param document Text document
+     * @returns Document length in characters
+     */
+    private getDocumentLength(document: vscode.TextDocument): number {
+        if (document.lineCount === 0) {
+            return 0;
+        }
+        return document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+    }
+
     /**
      * Notifies all violation listeners
      * @param event Violation event
@@ -281,12 +1033,35 @@ export class InputMonitor implements vscode.Disposable {
         });
     }
 
+    /**
+     * Notifies all classified change listeners
+     * @param event Classified change event
+     */
+    private notifyClassifiedChange(event: ClassifiedChangeEvent): void {
+        this.changeListeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Error in classified change listener:', error);
+            }
+        });
+    }
+
     /**
      * Disposes of the input monitor and cleans up resources
      */
     public dispose(): void {
         this.stopMonitoring();
+        this.typingBlocker.dispose();
+        this.changeClassifier.dispose();
         this.violationListeners.length = 0;
+        this.changeListeners.length = 0;
+        this.unlockTyping();
+        this.documentSnapshots.clear();
+        this.pendingReverts.clear();
+        this.endAllSaves();
+        this.deferredSaves.clear();
+        this.lastMovement = null;
         
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables.length = 0;
@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import { GameEngine } from '../game/game-engine';
+import { ClassifiedChangeEvent, InputMonitor } from './input-monitor';
+import {
+    ChangeSource,
+    GamePhaseChangeEvent,
+    GameState,
+    GameStateChangeEvent,
+    RedLightViolationEvent
+} from '../types/game-types';
+import { ScoringSettings } from '../types/settings-types';
+
+/**
+ * Score listener type
+ */
+export type ScoreListener = (score: number) => void;
+
+/**
+ * Gets the typing multiplier for a run of clean red lights
+ * @param cleanStreak Red lights in a row without a violation this session
+ * @param settings Scoring settings
+ * @returns Multiplier, between 1 and the configured maximum
+ */
+export function getStreakMultiplier(cleanStreak: number, settings: ScoringSettings): number {
+    const multiplier = 1 + settings.streakBonus * cleanStreak;
+    return Math.max(1, Math.min(settings.maxMultiplier, multiplier));
+}
+
+/**
+ * Gets the points for characters typed during green or yellow light
+ * @param characters Characters typed
+ * @param cleanStreak Red lights in a row without a violation this session
+ * @param settings Scoring settings
+ * @returns Points, rounded to whole points
+ */
+export function getTypingPoints(characters: number, cleanStreak: number, settings: ScoringSettings): number {
+    return Math.round(characters * settings.pointsPerCharacter * getStreakMultiplier(cleanStreak, settings));
+}
+
+/**
+ * Gets the points deducted for a violation
+ * @param characters Characters typed in the violation; 0 for movements such as scrolling
+ * @param settings Scoring settings
+ * @returns Points to deduct
+ */
+export function getViolationPenalty(characters: number, settings: ScoringSettings): number {
+    return Math.round(settings.violationPenalty + characters * settings.penaltyPerCharacter);
+}
+
+/**
+ * Keeps the score of the current session.
+ *
+ * Characters typed during green and yellow light earn points (whitespace,
+ * pastes and other edits that are not typing earn none). Each clean red light
+ * in a row raises the multiplier for typing points; a violation resets it and
+ * deducts points scaled by how much was typed. The score never drops below 0.
+ * The final score is kept after the game stops until the next session starts.
+ */
+export class ScoreKeeper implements vscode.Disposable {
+    private gameEngine: GameEngine;
+    private settings: ScoringSettings;
+    private score: number = 0;
+    private cleanStreak: number = 0;
+    private phaseViolated: boolean = false;
+    private listeners: ScoreListener[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new ScoreKeeper instance
+     * @param gameEngine Game engine instance to track sessions and phases
+     * @param inputMonitor Input monitor instance reporting typing and violations in monitored documents
+     * @param settings Scoring settings
+     */
+    constructor(gameEngine: GameEngine, inputMonitor: InputMonitor, settings: ScoringSettings) {
+        this.gameEngine = gameEngine;
+        this.settings = settings;
+        this.setupListeners(inputMonitor);
+    }
+
+    /**
+     * Gets the score of the current session, or of the last one once the game stops
+     */
+    public getScore(): number {
+        return this.score;
+    }
+
+    /**
+     * Gets the number of clean red lights in a row this session
+     */
+    public getCleanStreak(): number {
+        return this.cleanStreak;
+    }
+
+    /**
+     * Gets the current typing multiplier
+     */
+    public getMultiplier(): number {
+        return getStreakMultiplier(this.cleanStreak, this.settings);
+    }
+
+    /**
+     * Updates the scoring settings; points already earned are kept
+     * @param settings Scoring settings
+     */
+    public updateSettings(settings: ScoringSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Adds a listener called whenever the score or multiplier changes
+     * @param listener Score listener
+     */
+    public onScoreChange(listener: ScoreListener): vscode.Disposable {
+        this.listeners.push(listener);
+
+        return new vscode.Disposable(() => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) {
+                this.listeners.splice(index, 1);
+            }
+        });
+    }
+
+    /**
+     * Sets up listeners for phases, violations and typing
+     * @param inputMonitor Input monitor instance reporting typing and violations
+     */
+    private setupListeners(inputMonitor: InputMonitor): void {
+        const stateChangeDisposable = this.gameEngine.onStateChange(
+            (event: GameStateChangeEvent) => this.handleStateChange(event)
+        );
+        this.disposables.push(stateChangeDisposable);
+
+        const phaseChangeDisposable = this.gameEngine.onPhaseChange(
+            (event: GamePhaseChangeEvent) => this.handlePhaseChange(event)
+        );
+        this.disposables.push(phaseChangeDisposable);
+
+        const violationDisposable = inputMonitor.onViolation(
+            (event: RedLightViolationEvent) => this.handleViolation(event)
+        );
+        this.disposables.push(violationDisposable);
+
+        const changeDisposable = inputMonitor.onClassifiedChange(
+            (event: ClassifiedChangeEvent) => this.handleClassifiedChange(event)
+        );
+        this.disposables.push(changeDisposable);
+    }
+
+    /**
+     * Resets the score for a new session
+     * @param event Game state change event
+     */
+    private handleStateChange(event: GameStateChangeEvent): void {
+        if (event.previousState === GameState.Stopped && event.currentState !== GameState.Stopped) {
+            this.score = 0;
+            this.cleanStreak = 0;
+            this.phaseViolated = false;
+            this.notify();
+        }
+    }
+
+    /**
+     * Rewards clean red lights
+     * @param event Game phase change event
+     */
+    private handlePhaseChange(event: GamePhaseChangeEvent): void {
+        if (event.previousState === GameState.RedLight && !this.phaseViolated) {
+            this.cleanStreak++;
+            this.notify();
+        }
+
+        if (event.currentState === GameState.RedLight) {
+            this.phaseViolated = false;
+        }
+    }
+
+    /**
+     * Deducts points for a violation and resets the streak
+     * @param event Violation event
+     */
+    private handleViolation(event: RedLightViolationEvent): void {
+        this.phaseViolated = true;
+        this.cleanStreak = 0;
+        this.score = Math.max(0, this.score - getViolationPenalty(event.insertedCharacters ?? 0, this.settings));
+        this.notify();
+    }
+
+    /**
+     * Awards points for characters typed during green and yellow light
+     * @param event Classified change event
+     */
+    private handleClassifiedChange(event: ClassifiedChangeEvent): void {
+        if (event.state !== GameState.GreenLight && event.state !== GameState.YellowLight) {
+            return;
+        }
+
+        const { source, autoInserted } = event.classification;
+        if (source !== ChangeSource.Typed || autoInserted) {
+            return;
+        }
+
+        const characters = event.change.contentChanges.reduce(
+            (total, change) => total + change.text.replace(/\s/g, '').length,
+            0
+        );
+        if (characters === 0) {
+            return;
+        }
+
+        this.score += getTypingPoints(characters, this.cleanStreak, this.settings);
+        this.notify();
+    }
+
+    /**
+     * Notifies all score listeners
+     */
+    private notify(): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(this.score);
+            } catch (error) {
+                console.error('Error in score listener:', error);
+            }
+        });
+    }
+
+    /**
+     * Disposes of the score keeper and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+        this.listeners.length = 0;
+    }
+}
@@ -0,0 +1,284 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { GameEngine } from '../game/game-engine';
+import {
+    GamePhaseChangeEvent,
+    GameState,
+    GameStateChangeEvent,
+    PhaseTransitionRecord,
+    RedLightViolationEvent,
+    SessionRecord
+} from '../types/game-types';
+
+/**
+ * Supported session history export formats
+ */
+export enum HistoryExportFormat {
+    Jsonl = 'jsonl',
+    Csv = 'csv'
+}
+
+/**
+ * Column order used for CSV exports (one row per transition or violation)
+ */
+const CSV_COLUMNS = [
+    'sessionId',
+    'sessionStart',
+    'sessionEnd',
+    'eventType',
+    'timestamp',
+    'previousState',
+    'currentState',
+    'documentUri',
+    'changeText',
+    'actionTaken',
+    'violationKind',
+    'changeSource'
+] as const;
+
+/**
+ * Records an append-only history of game sessions.
+ *
+ * Each completed session is appended as a single JSON line to a file in the
+ * extension's global storage, so the history survives restarts and can be
+ * exported without loading anything into global state.
+ */
+export class SessionHistory implements vscode.Disposable {
+    private static readonly HISTORY_FILE = 'session-history.jsonl';
+    private gameEngine: GameEngine;
+    private historyPath: string;
+    private currentSession: {
+        startTime: number;
+        transitions: PhaseTransitionRecord[];
+        violations: RedLightViolationEvent[];
+    } | null = null;
+    private pendingWrite: Promise<void> = Promise.resolve();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new SessionHistory instance
+     * @param storageUri Directory to keep the history file in (usually globalStorageUri)
+     * @param gameEngine Game engine instance to track sessions and phases
+     */
+    constructor(storageUri: vscode.Uri, gameEngine: GameEngine) {
+        this.gameEngine = gameEngine;
+        this.historyPath = path.join(storageUri.fsPath, SessionHistory.HISTORY_FILE);
+        this.setupGameEngineListeners();
+    }
+
+    /**
+     * Records a violation in the current session
+     * @param event Red light violation event
+     */
+    public recordViolation(event: RedLightViolationEvent): void {
+        if (!this.currentSession) {
+            return;
+        }
+        this.currentSession.violations.push(event);
+    }
+
+    /**
+     * Reads all recorded sessions, oldest first
+     * @returns Recorded sessions
+     */
+    public async getSessions(): Promise<SessionRecord[]> {
+        await this.pendingWrite;
+
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.historyPath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const sessions: SessionRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (line.trim().length === 0) {
+                continue;
+            }
+            try {
+                sessions.push(JSON.parse(line) as SessionRecord);
+            } catch (error) {
+                console.warn('Skipping malformed session history line:', error);
+            }
+        }
+        return sessions;
+    }
+
+    /**
+     * Serializes all recorded sessions in the given format
+     * @param format Export format
+     * @returns Serialized history
+     */
+    public async export(format: HistoryExportFormat): Promise<string> {
+        const sessions = await this.getSessions();
+
+        switch (format) {
+            case HistoryExportFormat.Csv:
+                return this.toCsv(sessions);
+            case HistoryExportFormat.Jsonl:
+            default:
+                return sessions.map(session => JSON.stringify(session)).join('\n') + (sessions.length > 0 ? '\n' : '');
+        }
+    }
+
+    /**
+     * Sets up listeners for game engine events
+     */
+    private setupGameEngineListeners(): void {
+        const stateChangeDisposable = this.gameEngine.onStateChange(
+            (event: GameStateChangeEvent) => this.handleStateChange(event)
+        );
+        this.disposables.push(stateChangeDisposable);
+
+        const phaseChangeDisposable = this.gameEngine.onPhaseChange(
+            (event: GamePhaseChangeEvent) => this.recordTransition(event)
+        );
+        this.disposables.push(phaseChangeDisposable);
+    }
+
+    /**
+     * Opens and closes sessions and records pausing, resuming and stopping
+     * @param event Game state change event
+     */
+    private handleStateChange(event: GameStateChangeEvent): void {
+        // Timer ticks are reported with an unchanged state
+        if (event.previousState === event.currentState) {
+            return;
+        }
+
+        if (event.previousState === GameState.Stopped) {
+            this.currentSession = {
+                startTime: event.timestamp,
+                transitions: [],
+                violations: []
+            };
+        }
+
+        // New phases are recorded from phase changes, which include phases with the same light
+        const isPhaseTransition = event.previousState !== GameState.Paused &&
+                                  event.currentState !== GameState.Paused &&
+                                  event.currentState !== GameState.Stopped;
+        if (!isPhaseTransition) {
+            this.recordTransition(event);
+        }
+
+        if (this.currentSession && event.currentState === GameState.Stopped) {
+            const session: SessionRecord = {
+                id: `session-${this.currentSession.startTime}`,
+                startTime: this.currentSession.startTime,
+                endTime: event.timestamp,
+                transitions: this.currentSession.transitions,
+                violations: this.currentSession.violations
+            };
+            this.currentSession = null;
+            this.appendSession(session);
+        }
+    }
+
+    /**
+     * Records a transition in the current session
+     * @param event Game state or phase change event
+     */
+    private recordTransition(event: GameStateChangeEvent | GamePhaseChangeEvent): void {
+        this.currentSession?.transitions.push({
+            timestamp: event.timestamp,
+            previousState: event.previousState,
+            currentState: event.currentState
+        });
+    }
+
+    /**
+     * Appends a completed session to the history file
+     * @param session Completed session
+     */
+    private appendSession(session: SessionRecord): void {
+        // Chain writes so sessions are appended in the order they ended
+        this.pendingWrite = this.pendingWrite.then(async () => {
+            try {
+                await fs.promises.mkdir(path.dirname(this.historyPath), { recursive: true });
+                await fs.promises.appendFile(this.historyPath, JSON.stringify(session) + '\n', 'utf8');
+            } catch (error) {
+                console.error('Failed to write session history:', error);
+            }
+        });
+    }
+
+    /**
+     * Flattens sessions into CSV with one row per transition or violation
+     * @param sessions Sessions to convert
+     * @returns CSV text including header row
+     */
+    private toCsv(sessions: SessionRecord[]): string {
+        const rows: string[] = [CSV_COLUMNS.join(',')];
+
+        for (const session of sessions) {
+            const sessionColumns = [
+                session.id,
+                new Date(session.startTime).toISOString(),
+                new Date(session.endTime).toISOString()
+            ];
+
+            for (const transition of session.transitions) {
+                rows.push(this.toCsvRow([
+                    ...sessionColumns,
+                    'transition',
+                    new Date(transition.timestamp).toISOString(),
+                    transition.previousState,
+                    transition.currentState,
+                    '',
+                    '',
+                    '',
+                    '',
+                    ''
+                ]));
+            }
+
+            for (const violation of session.violations) {
+                rows.push(this.toCsvRow([
+                    ...sessionColumns,
+                    'violation',
+                    new Date(violation.timestamp).toISOString(),
+                    '',
+                    '',
+                    violation.documentUri,
+                    violation.changeText,
+                    violation.actionTaken,
+                    // Sessions recorded before violation kinds existed have none
+                    violation.kind ?? '',
+                    violation.changeSource ?? ''
+                ]));
+            }
+        }
+
+        return rows.join('\n') + '\n';
+    }
+
+    /**
+     * Builds a CSV row, quoting values where needed. Values that a spreadsheet
+     * would run as a formula, such as typed text starting with `=`, get a leading `'`.
+     * @param values Column values
+     * @returns CSV row
+     */
+    private toCsvRow(values: string[]): string {
+        return values.map(rawValue => {
+            const value = /^[=+\-@\t\r]/.test(rawValue) ? `'${rawValue}` : rawValue;
+            if (/[",\r\n]/.test(value)) {
+                return `"${value.replace(/"/g, '""')}"`;
+            }
+            return value;
+        }).join(',');
+    }
+
+    /**
+     * Disposes of the session history and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { GameEngine } from '../game/game-engine';
+import { GamePhaseChangeEvent, GameState, GameStateChangeEvent, GameStats } from '../types/game-types';
+
+/**
+ * Default (empty) statistics
+ */
+const EMPTY_STATS: GameStats = {
+    sessionsPlayed: 0,
+    totalViolations: 0,
+    totalGameTime: 0,
+    bestStreak: 0,
+    currentStreak: 0
+};
+
+/**
+ * Tracks game statistics across sessions and persists them in global state.
+ *
+ * A streak is the number of consecutive red light phases survived without a
+ * violation. It carries over between sessions and resets on any violation.
+ */
+export class StatsManager implements vscode.Disposable {
+    private static readonly STORAGE_KEY = 'redLightGreenLight.stats';
+    private storage: vscode.Memento;
+    private gameEngine: GameEngine;
+    private stats: GameStats;
+    private sessionViolations: number = 0;
+    private phaseViolations: number = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new StatsManager instance
+     * @param storage Memento used to persist statistics (usually globalState)
+     * @param gameEngine Game engine instance to track sessions and phases
+     */
+    constructor(storage: vscode.Memento, gameEngine: GameEngine) {
+        this.storage = storage;
+        this.gameEngine = gameEngine;
+        this.stats = this.loadStats();
+        this.setupGameEngineListeners();
+    }
+
+    /**
+     * Gets the lifetime statistics
+     * @returns Lifetime statistics
+     */
+    public getStats(): GameStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Gets the number of violations in the current session
+     */
+    public getSessionViolations(): number {
+        return this.sessionViolations;
+    }
+
+    /**
+     * Records a red light violation
+     */
+    public recordViolation(): void {
+        this.sessionViolations++;
+        this.phaseViolations++;
+
+        this.stats = {
+            ...this.stats,
+            totalViolations: this.stats.totalViolations + 1,
+            currentStreak: 0
+        };
+        this.saveStats();
+    }
+
+    /**
+     * Clears all lifetime statistics
+     */
+    public async resetStats(): Promise<void> {
+        this.stats = { ...EMPTY_STATS };
+        await this.storage.update(StatsManager.STORAGE_KEY, this.stats);
+    }
+
+    /**
+     * Sets up listeners for game engine events
+     */
+    private setupGameEngineListeners(): void {
+        const stateChangeDisposable = this.gameEngine.onStateChange(
+            (event: GameStateChangeEvent) => this.handleStateChange(event)
+        );
+        this.disposables.push(stateChangeDisposable);
+
+        const phaseChangeDisposable = this.gameEngine.onPhaseChange(
+            (event: GamePhaseChangeEvent) => this.handlePhaseChange(event)
+        );
+        this.disposables.push(phaseChangeDisposable);
+    }
+
+    /**
+     * Starts and completes sessions
+     * @param event Game state change event
+     */
+    private handleStateChange(event: GameStateChangeEvent): void {
+        // Timer ticks are reported with an unchanged state
+        if (event.previousState === event.currentState) {
+            return;
+        }
+
+        if (event.previousState === GameState.Stopped) {
+            this.sessionViolations = 0;
+            this.phaseViolations = 0;
+        }
+
+        if (event.currentState === GameState.Stopped) {
+            this.completeSession();
+        }
+    }
+
+    /**
+     * Counts completed red light phases towards the streak
+     * @param event Game phase change event
+     */
+    private handlePhaseChange(event: GamePhaseChangeEvent): void {
+        if (event.previousState === GameState.RedLight) {
+            this.completeRedLightPhase();
+        }
+
+        if (event.currentState === GameState.RedLight) {
+            this.phaseViolations = 0;
+        }
+    }
+
+    /**
+     * Counts a red light phase towards the streak if it was violation free
+     */
+    private completeRedLightPhase(): void {
+        if (this.phaseViolations > 0) {
+            return;
+        }
+
+        const currentStreak = this.stats.currentStreak + 1;
+        this.stats = {
+            ...this.stats,
+            currentStreak,
+            bestStreak: Math.max(this.stats.bestStreak, currentStreak)
+        };
+        this.saveStats();
+    }
+
+    /**
+     * Records the session that just ended
+     */
+    private completeSession(): void {
+        this.stats = {
+            ...this.stats,
+            sessionsPlayed: this.stats.sessionsPlayed + 1,
+            totalGameTime: this.stats.totalGameTime + this.gameEngine.getSessionDuration()
+        };
+        this.saveStats();
+    }
+
+    /**
+     * Loads statistics from storage
+     * @returns Stored statistics with defaults applied
+     */
+    private loadStats(): GameStats {
+        const stored = this.storage.get<Partial<GameStats>>(StatsManager.STORAGE_KEY, {});
+        return { ...EMPTY_STATS, ...stored };
+    }
+
+    /**
+     * Persists statistics to storage
+     */
+    private saveStats(): void {
+        this.storage.update(StatsManager.STORAGE_KEY, this.stats).then(undefined, error => {
+            console.error('Failed to save game statistics:', error);
+        });
+    }
+
+    /**
+     * Disposes of the stats manager and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
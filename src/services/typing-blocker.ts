@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+
+/**
+ * Editor commands that insert text, with the built-in commands they forward to.
+ * Extensions can take over `type` and `paste`; the `default:` variants always
+ * run VS Code's own handling.
+ */
+const INPUT_COMMANDS = [
+    { command: 'type', fallback: 'default:type' },
+    { command: 'paste', fallback: 'default:paste' }
+] as const;
+
+/**
+ * Input that was blocked
+ */
+export interface BlockedInput {
+    /** Command that was intercepted, `type` or `paste` */
+    readonly command: string;
+    /** Text that would have been inserted, if known */
+    readonly text: string;
+}
+
+/**
+ * Decides whether input should be blocked right now
+ */
+export type BlockPredicate = () => boolean;
+
+/**
+ * Blocked input listener type
+ */
+export type BlockedInputListener = (input: BlockedInput) => void;
+
+/**
+ * Takes over the editor's typing and paste commands so that input can be dropped.
+ *
+ * The commands are only registered while engaged, which keeps the override as
+ * short as possible and leaves typing to VS Code the rest of the time. Command
+ * registrations belong to the extension host, so if it crashes VS Code's own
+ * handling comes back by itself.
+ */
+export class TypingBlocker implements vscode.Disposable {
+    private shouldBlock: BlockPredicate;
+    private onBlocked: BlockedInputListener;
+    private registrations: vscode.Disposable[] = [];
+    private failed: boolean = false;
+
+    /**
+     * Creates a new TypingBlocker instance
+     * @param shouldBlock Called on every keystroke and paste while engaged
+     * @param onBlocked Called for each input that was dropped
+     */
+    constructor(shouldBlock: BlockPredicate, onBlocked: BlockedInputListener) {
+        this.shouldBlock = shouldBlock;
+        this.onBlocked = onBlocked;
+    }
+
+    /**
+     * Checks if the typing and paste commands are taken over
+     */
+    public isEngaged(): boolean {
+        return this.registrations.length > 0;
+    }
+
+    /**
+     * Takes over the typing and paste commands
+     * @returns True if the commands are taken over, false if another extension owns them
+     */
+    public engage(): boolean {
+        if (this.isEngaged()) {
+            return true;
+        }
+
+        // Do not retry until released, as engage may be called on every timer tick
+        if (this.failed) {
+            return false;
+        }
+
+        try {
+            for (const { command, fallback } of INPUT_COMMANDS) {
+                this.registrations.push(
+                    vscode.commands.registerCommand(command, (args?: { text?: string }) => this.handleInput(command, fallback, args))
+                );
+            }
+            return true;
+        } catch (error) {
+            // Only one extension can own `type`, e.g. Vim emulation
+            console.error('Failed to block typing:', error);
+            this.unregister();
+            this.failed = true;
+            return false;
+        }
+    }
+
+    /**
+     * Hands the typing and paste commands back to VS Code
+     */
+    public release(): void {
+        this.unregister();
+        this.failed = false;
+    }
+
+    /**
+     * Disposes of the command registrations
+     */
+    private unregister(): void {
+        this.registrations.forEach(registration => registration.dispose());
+        this.registrations.length = 0;
+    }
+
+    /**
+     * Drops or forwards an intercepted input command
+     * @param command Intercepted command
+     * @param fallback Built-in command that performs the input
+     * @param args Command arguments
+     */
+    private async handleInput(command: string, fallback: string, args?: { text?: string }): Promise<void> {
+        let block = false;
+        try {
+            block = this.shouldBlock();
+        } catch (error) {
+            // Never swallow keystrokes because of our own errors
+            console.error('Error deciding whether to block typing:', error);
+        }
+
+        if (!block) {
+            await vscode.commands.executeCommand(fallback, args);
+            return;
+        }
+
+        try {
+            this.onBlocked({ command, text: args?.text ?? '' });
+        } catch (error) {
+            console.error('Error in blocked input listener:', error);
+        }
+    }
+
+    /**
+     * Disposes of the typing blocker and hands typing back to VS Code
+     */
+    public dispose(): void {
+        this.release();
+    }
+}
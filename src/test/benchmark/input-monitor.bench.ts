@@ -0,0 +1,94 @@
+import { fireWorkspaceEvent } from '../unit/vscode-stub';
+import { performance } from 'perf_hooks';
+import { GameEngine } from '../../game/game-engine';
+import { InputMonitor } from '../../services/input-monitor';
+import { DocumentFilter } from '../../services/document-filter';
+import { SettingsManager } from '../../config/settings-manager';
+import { FakeClock } from '../unit/fake-clock';
+import { createGameConfig } from '../unit/test-config';
+
+/**
+ * Number of lines in the benchmark document (about 8MB of text, above the
+ * monitoring size limit, so the size check itself is what is measured)
+ */
+const LINE_COUNT = 100_000;
+
+/**
+ * Number of change events fired per scenario
+ */
+const EVENT_COUNT = 1_000;
+
+/**
+ * Builds a large in-memory document that, like VS Code, stores its text as
+ * lines and joins them whenever the full text is requested
+ * @param lineCount Number of lines
+ */
+function createLargeDocument(lineCount: number) {
+    const lines = Array.from({ length: lineCount }, (_, index) =>
+        `const value${index} = computeSomethingExpensive(${index}, 'padding text to widen the line');`
+    );
+    const lineOffsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        lineOffsets.push(offset);
+        offset += line.length + 1;
+    }
+
+    const uri = { scheme: 'file', path: '/workspace/large.ts', toString: () => 'file:///workspace/large.ts' };
+    return {
+        uri,
+        languageId: 'typescript',
+        version: 1,
+        lineCount: lines.length,
+        getText: () => lines.join('\n'),
+        lineAt: (line: number) => ({ range: { end: { line, character: lines[line].length } } }),
+        offsetAt: (position: { line: number; character: number }) => lineOffsets[position.line] + position.character
+    };
+}
+
+/**
+ * Measures the average time per call
+ * @param run Function to measure
+ * @returns Average time in microseconds
+ */
+function measure(run: () => void): number {
+    const start = performance.now();
+    for (let i = 0; i < EVENT_COUNT; i++) {
+        run();
+    }
+    return (performance.now() - start) * 1000 / EVENT_COUNT;
+}
+
+const clock = new FakeClock();
+const engine = new GameEngine(createGameConfig({ greenLightDuration: 10, redLightDuration: 60 }), { clock });
+const settingsManager = new SettingsManager();
+const documentFilter = new DocumentFilter(settingsManager);
+const monitor = new InputMonitor(engine, documentFilter);
+monitor.startMonitoring();
+
+const document = createLargeDocument(LINE_COUNT);
+const event = {
+    document,
+    contentChanges: [{ text: 'a', rangeOffset: 0, rangeLength: 0, range: { start: { line: 0, character: 0 } } }]
+};
+const fireChange = () => fireWorkspaceEvent('onDidChangeTextDocument', event);
+
+const results: { [scenario: string]: string } = {};
+
+results['Full getText() size check (previous behaviour)'] = measure(() => document.getText().length).toFixed(2);
+results['Game stopped'] = measure(fireChange).toFixed(2);
+
+engine.start();
+results['Green light'] = measure(fireChange).toFixed(2);
+
+clock.tick(10_000);
+clock.tick(1_000);
+results['Red light'] = measure(fireChange).toFixed(2);
+
+console.log(`InputMonitor overhead per change event, ${LINE_COUNT} lines (${document.offsetAt(document.lineAt(LINE_COUNT - 1).range.end)} characters), microseconds:`);
+console.table(results);
+
+monitor.dispose();
+documentFilter.dispose();
+settingsManager.dispose();
+engine.dispose();
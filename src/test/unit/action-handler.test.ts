@@ -0,0 +1,43 @@
+import { resetWorkspaceListeners } from './vscode-stub';
+import * as assert from 'assert';
+import { ActionHandler } from '../../services/action-handler';
+import { GameEngine } from '../../game/game-engine';
+import { GameState, RedLightAction, ViolationKind } from '../../types/game-types';
+import { FakeClock } from './fake-clock';
+import { createGameConfig } from './test-config';
+
+suite('ActionHandler', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let actionHandler: ActionHandler;
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig({
+            schedule: [{ state: GameState.RedLight, duration: 2 }]
+        }), { clock });
+        actionHandler = new ActionHandler(engine);
+    });
+
+    teardown(() => {
+        actionHandler.dispose();
+        engine.dispose();
+        resetWorkspaceListeners();
+    });
+
+    test('a session that ends with its schedule does not pass its violations on', async () => {
+        engine.start();
+        await actionHandler.handleViolation({
+            timestamp: clock.now(),
+            documentUri: 'file:///workspace/file.ts',
+            kind: ViolationKind.Edit,
+            changeText: 'Added: "a"',
+            actionTaken: RedLightAction.Revert
+        });
+        assert.strictEqual(actionHandler.getViolationCount(), 1);
+
+        clock.tick(2000);
+        assert.strictEqual(engine.getCurrentState(), GameState.Stopped);
+        assert.strictEqual(actionHandler.getViolationCount(), 0);
+    });
+});
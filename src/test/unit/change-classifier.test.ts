@@ -0,0 +1,149 @@
+import { fireWorkspaceEvent, resetWorkspaceListeners, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ChangeClassification, ChangeClassifier } from '../../services/change-classifier';
+import { ChangeSource } from '../../types/game-types';
+import { FakeClock } from './fake-clock';
+
+/**
+ * Options for a test change event
+ */
+interface ChangeOptions {
+    readonly path?: string;
+    readonly line?: number;
+    readonly rangeLength?: number;
+    readonly reason?: number;
+    readonly isDirty?: boolean;
+}
+
+/**
+ * Builds a text document change event inserting text on a line
+ * @param text Inserted text
+ * @param options Document and change details
+ */
+function createChangeEvent(text: string, options: ChangeOptions = {}): vscode.TextDocumentChangeEvent {
+    const path = options.path ?? '/workspace/file.ts';
+    const line = options.line ?? 0;
+    return {
+        document: { uri: vscodeStub.Uri.file(path), isDirty: options.isDirty ?? true },
+        reason: options.reason,
+        contentChanges: [{
+            text,
+            rangeOffset: 0,
+            rangeLength: options.rangeLength ?? 0,
+            range: { start: { line, character: 0 }, end: { line, character: 0 } }
+        }]
+    } as unknown as vscode.TextDocumentChangeEvent;
+}
+
+suite('ChangeClassifier', () => {
+    let clock: FakeClock;
+    let classifier: ChangeClassifier;
+
+    setup(() => {
+        clock = new FakeClock();
+        classifier = new ChangeClassifier(clock);
+        vscodeStub.window.activeTextEditor = {
+            document: { uri: vscodeStub.Uri.file('/workspace/file.ts') },
+            selections: [{ active: { line: 3, character: 4 } }]
+        };
+    });
+
+    teardown(() => {
+        classifier.dispose();
+        resetWorkspaceListeners();
+    });
+
+    /**
+     * Classifies changes delivered together
+     * @param events Text document change events
+     * @returns Classification of each change
+     */
+    function classifyTogether(...events: vscode.TextDocumentChangeEvent[]): ChangeClassification[] {
+        const classifications: ChangeClassification[] = [];
+        events.forEach((event, index) => classifier.classify(event, classification => {
+            classifications[index] = classification;
+        }));
+        assert.strictEqual(classifications.length, 0);
+
+        clock.tick(0);
+        return classifications;
+    }
+
+    /**
+     * Classifies a change after the previous one has settled
+     * @param event Text document change event
+     */
+    function classify(event: vscode.TextDocumentChangeEvent): ChangeSource {
+        clock.tick(1_000);
+        return classifyTogether(event)[0].source;
+    }
+
+    test('keystrokes at the cursor are typed and larger insertions are pasted', () => {
+        assert.strictEqual(classify(createChangeEvent('a', { line: 3 })), ChangeSource.Typed);
+        assert.strictEqual(classify(createChangeEvent('\n        ', { line: 3 })), ChangeSource.Typed);
+        assert.strictEqual(classify(createChangeEvent('()', { line: 3 })), ChangeSource.Typed);
+        assert.strictEqual(classify(createChangeEvent('first();\nsecond();', { line: 2 })), ChangeSource.Pasted);
+        assert.strictEqual(classify(createChangeEvent('const pastedValue = 42;', { line: 3 })), ChangeSource.Pasted);
+    });
+
+    test('undo, redo and reloads from disk are recognised', () => {
+        const { Undo, Redo } = vscodeStub.TextDocumentChangeReason;
+        assert.strictEqual(classify(createChangeEvent('a', { line: 3, reason: Undo })), ChangeSource.Undo);
+        assert.strictEqual(classify(createChangeEvent('a', { line: 3, reason: Redo })), ChangeSource.Redo);
+
+        fireWorkspaceEvent('onDidSaveTextDocument', { uri: vscodeStub.Uri.file('/workspace/file.ts') });
+        assert.strictEqual(classify(createChangeEvent('checked out', { line: 3, isDirty: false })), ChangeSource.External);
+    });
+
+    test('typing that returns a document to its saved text is still typing', () => {
+        assert.strictEqual(classify(createChangeEvent('a', { line: 3 })), ChangeSource.Typed);
+        assert.strictEqual(classify(createChangeEvent('', { line: 3, rangeLength: 1, isDirty: false })), ChangeSource.Typed);
+
+        // Back at its saved text, the document reloads like any unmodified one
+        assert.strictEqual(classify(createChangeEvent('checked out', { line: 3, isDirty: false })), ChangeSource.External);
+    });
+
+    test('edits away from the cursor or outside the active editor are not typing', () => {
+        assert.strictEqual(classify(createChangeEvent('    ', { line: 10 })), ChangeSource.Formatter);
+        assert.strictEqual(classify(createChangeEvent('a', { path: '/workspace/other.ts', line: 3 })), ChangeSource.External);
+
+        vscodeStub.window.activeTextEditor = undefined;
+        assert.strictEqual(classify(createChangeEvent('a', { line: 3 })), ChangeSource.External);
+    });
+
+    test('every document of a multi-file edit is a refactor, including the first', () => {
+        const sources = classifyTogether(
+            createChangeEvent('renamed', { line: 3 }),
+            createChangeEvent('renamed', { path: '/workspace/other.ts', line: 8 })
+        ).map(classification => classification.source);
+        assert.deepStrictEqual(sources, [ChangeSource.Refactor, ChangeSource.Refactor]);
+    });
+
+    test('edits to different documents in quick succession are separate edits', () => {
+        clock.tick(1_000);
+        assert.strictEqual(
+            classifyTogether(createChangeEvent('a', { path: '/workspace/other.ts', line: 3 }))[0].source,
+            ChangeSource.External
+        );
+        clock.tick(5);
+        assert.strictEqual(classifyTogether(createChangeEvent('a', { line: 3 }))[0].source, ChangeSource.Typed);
+    });
+
+    test('closing text inserted right after a keystroke belongs to it', () => {
+        clock.tick(1_000);
+        assert.strictEqual(classifyTogether(createChangeEvent('>', { line: 3 }))[0].autoInserted, false);
+        clock.tick(1);
+        assert.deepStrictEqual(
+            classifyTogether(createChangeEvent('</div>', { line: 3 }))[0],
+            { source: ChangeSource.Typed, autoInserted: true }
+        );
+
+        // Typed on its own, a closing bracket is a keystroke
+        clock.tick(1_000);
+        assert.deepStrictEqual(
+            classifyTogether(createChangeEvent(')', { line: 3 }))[0],
+            { source: ChangeSource.Typed, autoInserted: false }
+        );
+    });
+});
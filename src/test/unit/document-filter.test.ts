@@ -0,0 +1,48 @@
+import { setConfiguration } from './vscode-stub';
+import * as assert from 'assert';
+import type { TextDocument } from 'vscode';
+import { DocumentFilter } from '../../services/document-filter';
+import { SettingsManager } from '../../config/settings-manager';
+import { DEFAULT_SETTINGS } from '../../types/settings-types';
+
+/**
+ * Builds a minimal text document
+ * @param scheme URI scheme
+ * @param languageId Language ID
+ */
+function createDocument(scheme: string, languageId: string): TextDocument {
+    const uri = { scheme, path: '/workspace/notes.md', toString: () => `${scheme}:/workspace/notes.md` };
+    return { uri, languageId } as unknown as TextDocument;
+}
+
+suite('DocumentFilter', () => {
+    let settingsManager: SettingsManager;
+    let filter: DocumentFilter;
+
+    function createFilter(rules: Partial<typeof DEFAULT_SETTINGS.documentRules>): void {
+        setConfiguration('documentRules', rules);
+        settingsManager = new SettingsManager();
+        filter = new DocumentFilter(settingsManager);
+    }
+
+    teardown(() => {
+        filter.dispose();
+        settingsManager.dispose();
+        setConfiguration('documentRules', undefined);
+    });
+
+    test('monitors file and untitled documents by default', () => {
+        createFilter({});
+
+        assert.strictEqual(filter.matches(createDocument('file', 'typescript')), true);
+        assert.strictEqual(filter.matches(createDocument('untitled', 'plaintext')), true);
+        assert.strictEqual(filter.matches(createDocument('vscode-notebook-cell', 'python')), false);
+    });
+
+    test('applies scheme and language rules', () => {
+        createFilter({ schemes: ['file', 'vscode-notebook-cell'], excludeLanguages: ['markdown'] });
+
+        assert.strictEqual(filter.matches(createDocument('vscode-notebook-cell', 'python')), true);
+        assert.strictEqual(filter.matches(createDocument('file', 'markdown')), false);
+    });
+});
@@ -0,0 +1,165 @@
+import { fireWorkspaceEvent, resetWorkspaceListeners, setConfiguration, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import type { RedLightGreenLightApi, StateChangeEvent, ViolationEvent } from '../../../api/red-light-green-light';
+import { ExtensionApi } from '../../api/extension-api';
+import { GameEngine } from '../../game/game-engine';
+import { SettingsManager } from '../../config/settings-manager';
+import { DocumentFilter } from '../../services/document-filter';
+import { InputMonitor } from '../../services/input-monitor';
+import { StatsManager } from '../../services/stats-manager';
+import { ActionHandler } from '../../services/action-handler';
+import { FakeClock } from './fake-clock';
+import { createChangeEvent, createGameConfig } from './test-config';
+
+/**
+ * In-memory Memento for stats storage
+ */
+class MemoryMemento {
+    private values = new Map<string, unknown>();
+
+    public keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    public async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+suite('Extension API', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let settingsManager: SettingsManager;
+    let documentFilter: DocumentFilter;
+    let monitor: InputMonitor;
+    let statsManager: StatsManager;
+    let actionHandler: ActionHandler;
+    let extensionApi: ExtensionApi;
+    let api: RedLightGreenLightApi;
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig(), { clock });
+        settingsManager = new SettingsManager();
+        documentFilter = new DocumentFilter(settingsManager);
+        monitor = new InputMonitor(engine, documentFilter);
+        monitor.updateGracePeriod(0.5);
+        statsManager = new StatsManager(new MemoryMemento() as unknown as vscode.Memento, engine);
+        actionHandler = new ActionHandler(engine);
+        monitor.onViolation(event => {
+            statsManager.recordViolation();
+            actionHandler.handleViolation(event);
+        });
+        monitor.startMonitoring();
+
+        // Edits land in the active editor at its cursor
+        vscodeStub.window.activeTextEditor = {
+            document: createChangeEvent('').document,
+            selections: [{ active: { line: 0, character: 0 } }]
+        };
+
+        extensionApi = new ExtensionApi(engine, settingsManager, monitor, statsManager);
+        api = extensionApi.getApi(1);
+    });
+
+    teardown(() => {
+        extensionApi.dispose();
+        actionHandler.dispose();
+        statsManager.dispose();
+        monitor.dispose();
+        documentFilter.dispose();
+        settingsManager.dispose();
+        engine.dispose();
+        setConfiguration('redLightDuration', undefined);
+        resetWorkspaceListeners();
+    });
+
+    test('only supported versions are handed out', () => {
+        assert.strictEqual(api.version, 1);
+        assert.throws(() => extensionApi.getApi(2 as 1), /version 2 is not supported/);
+    });
+
+    test('state changes are reported without timer ticks', () => {
+        const events: StateChangeEvent[] = [];
+        api.onStateChange(event => events.push(event));
+
+        api.start();
+        clock.tick(settingsManager.getSetting('greenLightDuration') * 1000);
+        api.pause();
+        api.resume();
+        api.stop();
+
+        assert.deepStrictEqual(events.map(event => event.currentState), ['green', 'red', 'paused', 'red', 'stopped']);
+        assert.strictEqual(api.state, 'stopped');
+    });
+
+    test('start refuses invalid settings', async () => {
+        setConfiguration('redLightDuration', 600);
+        await settingsManager.loadTeamConfig();
+
+        assert.throws(() => api.start(), /Invalid settings: Red light duration/);
+        assert.strictEqual(api.state, 'stopped');
+    });
+
+    test('violations and session stats are reported', () => {
+        const violations: ViolationEvent[] = [];
+        api.onViolation(event => violations.push(event));
+
+        api.start();
+        clock.tick(settingsManager.getSetting('greenLightDuration') * 1000 + 501);
+        fireWorkspaceEvent('onDidChangeTextDocument', createChangeEvent('a'));
+        clock.tick(0);
+
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].kind, 'edit');
+        assert.strictEqual(violations[0].documentUri, 'file:///workspace/file.ts');
+        assert.strictEqual(violations[0].action, settingsManager.getSetting('redLightAction'));
+
+        const stats = api.getSessionStats();
+        assert.strictEqual(stats.state, 'red');
+        assert.strictEqual(stats.active, true);
+        assert.strictEqual(stats.violations, 1);
+        assert.strictEqual(stats.lifetime.totalViolations, 1);
+    });
+
+    test('a session stopped through the API does not pass its violations on', () => {
+        api.start();
+        clock.tick(settingsManager.getSetting('greenLightDuration') * 1000 + 501);
+        fireWorkspaceEvent('onDidChangeTextDocument', createChangeEvent('a'));
+        clock.tick(0);
+        assert.strictEqual(actionHandler.getViolationCount(), 1);
+
+        api.stop();
+        assert.strictEqual(actionHandler.getViolationCount(), 0);
+        assert.strictEqual(api.getSessionStats().violations, 1);
+
+        api.start();
+        assert.strictEqual(api.getSessionStats().violations, 0);
+    });
+
+    test('listeners stop when disposed and errors in them are contained', () => {
+        const events: StateChangeEvent[] = [];
+        const subscription = api.onStateChange(event => events.push(event));
+        api.onStateChange(() => {
+            throw new Error('listener failure');
+        });
+
+        const originalError = console.error;
+        console.error = () => undefined;
+        try {
+            api.start();
+            subscription.dispose();
+            api.stop();
+        } finally {
+            console.error = originalError;
+        }
+
+        assert.strictEqual(events.length, 1);
+        assert.strictEqual(api.state, 'stopped');
+    });
+});
@@ -0,0 +1,109 @@
+import { Clock, TimerHandle } from '../../game/clock';
+
+/**
+ * Scheduled fake timer
+ */
+interface FakeTimer {
+    readonly id: number;
+    readonly callback: () => void;
+    readonly interval: number | null;
+    dueTime: number;
+}
+
+/**
+ * Manually advanced clock for deterministic timer tests
+ */
+export class FakeClock implements Clock {
+    private currentTime: number;
+    private nextId: number = 1;
+    private timers: Map<number, FakeTimer> = new Map();
+    private latency: number = 0;
+
+    /**
+     * Creates a new FakeClock instance
+     * @param startTime Initial time in milliseconds
+     */
+    constructor(startTime: number = 1_000_000) {
+        this.currentTime = startTime;
+    }
+
+    public now(): number {
+        return this.currentTime;
+    }
+
+    public monotonicNow(): number {
+        return this.currentTime;
+    }
+
+    public setInterval(callback: () => void, ms: number): TimerHandle {
+        return this.schedule(callback, ms, ms);
+    }
+
+    public clearInterval(handle: TimerHandle): void {
+        this.timers.delete(handle as number);
+    }
+
+    public setTimeout(callback: () => void, ms: number): TimerHandle {
+        return this.schedule(callback, ms, null);
+    }
+
+    public clearTimeout(handle: TimerHandle): void {
+        this.timers.delete(handle as number);
+    }
+
+    /**
+     * Advances the clock, firing due timers in order
+     * @param ms Milliseconds to advance
+     */
+    public tick(ms: number): void {
+        const targetTime = this.currentTime + ms;
+
+        for (;;) {
+            const next = this.nextDueTimer(targetTime);
+            if (!next) {
+                break;
+            }
+
+            this.currentTime = next.dueTime;
+            if (next.interval === null) {
+                this.timers.delete(next.id);
+            } else {
+                next.dueTime += next.interval;
+            }
+            next.callback();
+        }
+
+        this.currentTime = targetTime;
+    }
+
+    /**
+     * Makes timers scheduled from now on fire late, like a loaded event loop
+     * @param ms Milliseconds each timer fires after its due time
+     */
+    public setLatency(ms: number): void {
+        this.latency = ms;
+    }
+
+    /**
+     * Gets the number of pending timers
+     */
+    public pendingTimers(): number {
+        return this.timers.size;
+    }
+
+    private schedule(callback: () => void, ms: number, interval: number | null): number {
+        const id = this.nextId++;
+        this.timers.set(id, { id, callback, interval, dueTime: this.currentTime + Math.max(0, ms) + this.latency });
+        return id;
+    }
+
+    private nextDueTimer(targetTime: number): FakeTimer | undefined {
+        let next: FakeTimer | undefined;
+        for (const timer of this.timers.values()) {
+            if (timer.dueTime <= targetTime && (!next || timer.dueTime < next.dueTime)) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+}
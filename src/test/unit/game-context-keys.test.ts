@@ -0,0 +1,63 @@
+import { executedCommands, resetWorkspaceListeners } from './vscode-stub';
+import * as assert from 'assert';
+import { GameEngine } from '../../game/game-engine';
+import { GameContextKeys } from '../../ui/game-context-keys';
+import { FakeClock } from './fake-clock';
+import { createGameConfig } from './test-config';
+
+/**
+ * Gets the context key values set so far, in order
+ */
+function contextUpdates(): string[] {
+    return executedCommands
+        .filter(entry => entry.command === 'setContext')
+        .map(entry => `${entry.args[0]}=${entry.args[1]}`);
+}
+
+suite('GameContextKeys', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let contextKeys: GameContextKeys;
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig({ greenLightDuration: 10, redLightDuration: 5 }), { clock });
+        contextKeys = new GameContextKeys(engine);
+    });
+
+    teardown(() => {
+        contextKeys.dispose();
+        engine.dispose();
+        resetWorkspaceListeners();
+    });
+
+    test('keys follow the game state', () => {
+        assert.deepStrictEqual(contextUpdates(), [
+            'redLightGreenLight.state=stopped',
+            'redLightGreenLight.active=false',
+            'redLightGreenLight.typingAllowed=true'
+        ]);
+
+        executedCommands.length = 0;
+        engine.start();
+        clock.tick(10_000);
+        engine.pause();
+
+        assert.deepStrictEqual(contextUpdates(), [
+            'redLightGreenLight.state=green',
+            'redLightGreenLight.active=true',
+            'redLightGreenLight.state=red',
+            'redLightGreenLight.typingAllowed=false',
+            'redLightGreenLight.state=paused',
+            'redLightGreenLight.typingAllowed=true'
+        ]);
+    });
+
+    test('timer ticks do not set unchanged keys', () => {
+        engine.start();
+        executedCommands.length = 0;
+
+        clock.tick(3_000);
+        assert.deepStrictEqual(contextUpdates(), []);
+    });
+});
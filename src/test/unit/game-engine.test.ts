@@ -0,0 +1,214 @@
+import './vscode-stub';
+import * as assert from 'assert';
+import { GameEngine } from '../../game/game-engine';
+import { GameState, ScheduledPhase } from '../../types/game-types';
+import { FakeClock } from './fake-clock';
+import { createGameConfig } from './test-config';
+
+suite('GameEngine', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let transitions: GameState[];
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig({ greenLightDuration: 10, redLightDuration: 5 }), { clock });
+        transitions = [];
+        engine.onStateChange(event => {
+            if (event.previousState !== event.currentState) {
+                transitions.push(event.currentState);
+            }
+        });
+    });
+
+    teardown(() => {
+        engine.dispose();
+    });
+
+    test('cycles between green and red light with the configured durations', () => {
+        engine.start();
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+
+        clock.tick(9000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+
+        clock.tick(1000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.strictEqual(engine.getRemainingTime(), 5);
+
+        clock.tick(5000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+
+        assert.deepStrictEqual(transitions, [GameState.GreenLight, GameState.RedLight, GameState.GreenLight]);
+    });
+
+    test('reports the remaining time with every tick', () => {
+        const remaining: number[] = [];
+        engine.onStateChange(event => remaining.push(event.remainingTime ?? -1));
+
+        engine.start();
+        clock.tick(3000);
+
+        assert.deepStrictEqual(remaining.slice(-3), [9, 8, 7]);
+    });
+
+    test('typing is only disallowed during red light', () => {
+        assert.strictEqual(engine.isTypingAllowed(), true);
+
+        engine.start();
+        assert.strictEqual(engine.isTypingAllowed(), true);
+
+        clock.tick(10_000);
+        assert.strictEqual(engine.isTypingAllowed(), false);
+
+        engine.pause();
+        assert.strictEqual(engine.isTypingAllowed(), true);
+    });
+
+    test('pause keeps the phase and excludes paused time from the session duration', () => {
+        engine.start();
+        clock.tick(12_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+
+        engine.pause();
+        clock.tick(60_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.Paused);
+        assert.strictEqual(engine.getSessionDuration(), 12_000);
+
+        engine.resume();
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.strictEqual(engine.getRemainingTime(), 3);
+
+        clock.tick(3000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.strictEqual(engine.getSessionDuration(), 15_000);
+    });
+
+    test('config updates mid-phase take effect from the next phase', () => {
+        engine.start();
+        clock.tick(4000);
+
+        engine.updateConfig(createGameConfig({ greenLightDuration: 20, redLightDuration: 2 }));
+        assert.strictEqual(engine.getRemainingTime(), 6);
+
+        clock.tick(6000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.strictEqual(engine.getRemainingTime(), 2);
+
+        clock.tick(2000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.strictEqual(engine.getRemainingTime(), 20);
+    });
+
+    test('follows the phase schedule and ends the session after the last phase', () => {
+        const schedule: ScheduledPhase[] = [
+            { state: GameState.RedLight, duration: 2 },
+            { state: GameState.GreenLight, duration: 3 },
+            { state: GameState.GreenLight, duration: 4 }
+        ];
+        engine.updateConfig(createGameConfig({ schedule }));
+
+        engine.start();
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.deepStrictEqual(engine.getSchedulePosition(), { index: 0, total: 3 });
+
+        clock.tick(2000);
+        assert.strictEqual(engine.getRemainingTime(), 3);
+
+        clock.tick(3000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.strictEqual(engine.getRemainingTime(), 4);
+        assert.deepStrictEqual(engine.getSchedulePosition(), { index: 2, total: 3 });
+
+        clock.tick(4000);
+        assert.strictEqual(engine.getCurrentState(), GameState.Stopped);
+        assert.deepStrictEqual(transitions, [GameState.RedLight, GameState.GreenLight, GameState.Stopped]);
+    });
+
+    test('consecutive phases with the same light each report a phase change', () => {
+        const schedule: ScheduledPhase[] = [
+            { state: GameState.RedLight, duration: 2 },
+            { state: GameState.RedLight, duration: 3 },
+            { state: GameState.GreenLight, duration: 1 }
+        ];
+        engine.updateConfig(createGameConfig({ schedule }));
+        const phases: string[] = [];
+        engine.onPhaseChange(event => {
+            phases.push(`${event.phaseIndex}: ${event.previousState} -> ${event.currentState} (${engine.getRemainingTime()}s)`);
+        });
+
+        engine.start();
+        clock.tick(2000);
+        engine.pause();
+        engine.resume();
+        clock.tick(3000);
+
+        assert.deepStrictEqual(phases, [
+            '0: stopped -> red (2s)',
+            '1: red -> red (3s)',
+            '2: red -> green (1s)'
+        ]);
+    });
+
+    test('a looping schedule starts over after the last phase', () => {
+        const schedule: ScheduledPhase[] = [
+            { state: GameState.GreenLight, duration: 1 },
+            { state: GameState.RedLight, duration: 1 }
+        ];
+        engine.updateConfig(createGameConfig({ schedule, loopSchedule: true }));
+
+        engine.start();
+        clock.tick(2000);
+
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.deepStrictEqual(engine.getSchedulePosition(), { index: 0, total: 2 });
+    });
+
+    test('a yellow light warns between green and red', () => {
+        engine.updateConfig(createGameConfig({ greenLightDuration: 10, yellowLightDuration: 3, redLightDuration: 5 }));
+
+        engine.start();
+        clock.tick(10_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.YellowLight);
+        assert.strictEqual(engine.isTypingAllowed(), true);
+        assert.strictEqual(engine.getRemainingTime(), 3);
+
+        clock.tick(3000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.strictEqual(engine.getRemainingTime(), 5);
+
+        clock.tick(5000);
+        assert.deepStrictEqual(transitions, [
+            GameState.GreenLight,
+            GameState.YellowLight,
+            GameState.RedLight,
+            GameState.GreenLight
+        ]);
+    });
+
+    test('a scheduled red light keeps its duration after the yellow warning', () => {
+        const schedule: ScheduledPhase[] = [
+            { state: GameState.GreenLight, duration: 2 },
+            { state: GameState.RedLight, duration: 7 }
+        ];
+        engine.updateConfig(createGameConfig({ schedule, yellowLightDuration: 1 }));
+
+        engine.start();
+        clock.tick(2000);
+        assert.strictEqual(engine.getCurrentState(), GameState.YellowLight);
+
+        clock.tick(1000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        assert.strictEqual(engine.getRemainingTime(), 7);
+    });
+
+    test('stop ends the session and cancels the phase timer', () => {
+        engine.start();
+        clock.tick(3000);
+        engine.stop();
+
+        assert.strictEqual(engine.getCurrentState(), GameState.Stopped);
+        assert.strictEqual(engine.getSessionDuration(), 0);
+        assert.strictEqual(clock.pendingTimers(), 0);
+    });
+});
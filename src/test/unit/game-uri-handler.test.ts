@@ -0,0 +1,142 @@
+import { errorMessages, resetWorkspaceListeners, setConfiguration, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { GameCommands } from '../../commands/game-commands';
+import { GameUriHandler, parseStartParameters } from '../../commands/game-uri-handler';
+import { SettingsManager } from '../../config/settings-manager';
+import { GameEngine } from '../../game/game-engine';
+import { ActionHandler } from '../../services/action-handler';
+import { StatsManager } from '../../services/stats-manager';
+import { SessionHistory } from '../../services/session-history';
+import { ScoreKeeper } from '../../services/score-keeper';
+import { DEFAULT_SETTINGS, ExtensionSettings } from '../../types/settings-types';
+import { FakeClock } from './fake-clock';
+
+/**
+ * Builds a link for the handler
+ * @param path Route
+ * @param query Query string
+ */
+function createUri(path: string, query = '') {
+    return { ...vscodeStub.Uri.file(path), path, query } as unknown as vscode.Uri;
+}
+
+suite('GameUriHandler', () => {
+    let settingsManager: SettingsManager;
+    let calls: string[];
+    let startOverrides: Array<Partial<ExtensionSettings> | undefined>;
+    let handler: GameUriHandler;
+
+    setup(() => {
+        settingsManager = new SettingsManager();
+        calls = [];
+        startOverrides = [];
+
+        const gameCommands = {
+            startGame: async (overrides?: Partial<ExtensionSettings>) => {
+                calls.push('start');
+                startOverrides.push(overrides);
+            },
+            stopGame: async () => {
+                calls.push('stop');
+            },
+            pauseGame: async () => {
+                calls.push('pause');
+            },
+            resumeGame: async () => {
+                calls.push('resume');
+            }
+        };
+        handler = new GameUriHandler(gameCommands as unknown as GameCommands, settingsManager);
+    });
+
+    teardown(() => {
+        settingsManager.dispose();
+        resetWorkspaceListeners();
+    });
+
+    test('start parameters map onto settings for the session', () => {
+        const parsed = parseStartParameters('green=20&red=5&mode=random&min=2&action=warn&yellow=0', DEFAULT_SETTINGS);
+
+        assert.deepStrictEqual(parsed.errors, []);
+        assert.deepStrictEqual(parsed.overrides, {
+            greenLightDuration: 20,
+            redLightDuration: 5,
+            useRandomTiming: true,
+            randomTiming: { ...DEFAULT_SETTINGS.randomTiming, minTime: 2 },
+            redLightAction: 'warn',
+            enableYellowLight: false
+        });
+    });
+
+    test('timing parameters turn off the phase schedule', () => {
+        const settings = { ...DEFAULT_SETTINGS, schedule: { ...DEFAULT_SETTINGS.schedule, enabled: true } };
+
+        assert.strictEqual(parseStartParameters('red=3', settings).overrides.schedule?.enabled, false);
+        assert.strictEqual(parseStartParameters('action=revert', settings).overrides.schedule, undefined);
+    });
+
+    test('malformed parameters are reported and links cannot choose the close action', () => {
+        const parsed = parseStartParameters('green=soon&action=close&speed=2', DEFAULT_SETTINGS);
+
+        assert.deepStrictEqual(parsed.overrides, {});
+        assert.deepStrictEqual(parsed.errors, [
+            '"green" must be a number of seconds, not "soon"',
+            '"action" must be one of warn, revert, not "close"',
+            'unknown parameter "speed"'
+        ]);
+    });
+
+    test('routes map onto game commands', async () => {
+        await handler.handleUri(createUri('/start', 'green=20&red=5'));
+        await handler.handleUri(createUri('/pause/'));
+        await handler.handleUri(createUri('/resume'));
+        await handler.handleUri(createUri('/stop'));
+
+        assert.deepStrictEqual(calls, ['start', 'pause', 'resume', 'stop']);
+        assert.deepStrictEqual(startOverrides, [{ greenLightDuration: 20, redLightDuration: 5 }]);
+        assert.deepStrictEqual(errorMessages, []);
+    });
+
+    test('values outside the settings ranges do not start a session', async () => {
+        await handler.handleUri(createUri('/start', 'red=600'));
+        await handler.handleUri(createUri('/restart'));
+
+        assert.deepStrictEqual(calls, []);
+        assert.match(errorMessages[0], /Red light duration must be between 1 and 60 seconds/);
+        assert.match(errorMessages[1], /Unknown Red Light Green Light link "\/restart"/);
+    });
+
+    test('link settings last through settings changes until the session stops', async () => {
+        const engine = new GameEngine(settingsManager.toGameConfig(), { clock: new FakeClock() });
+        const actionHandler = new ActionHandler(engine);
+        const gameCommands = new GameCommands(
+            engine,
+            settingsManager,
+            actionHandler,
+            { getSessionViolations: () => 0 } as unknown as StatsManager,
+            {} as unknown as SessionHistory,
+            { getScore: () => 0 } as unknown as ScoreKeeper
+        );
+        // Reconfigures the engine on settings changes, as the extension does
+        settingsManager.onSettingsChange(() => engine.updateConfig(settingsManager.toGameConfig()));
+
+        try {
+            await new GameUriHandler(gameCommands, settingsManager).handleUri(createUri('/start', 'green=20'));
+            assert.strictEqual(engine.getConfig().timerConfig.greenLightDuration, 20);
+
+            setConfiguration('redLightDuration', 7);
+            await settingsManager.loadTeamConfig();
+            assert.strictEqual(engine.getConfig().timerConfig.greenLightDuration, 20);
+            assert.strictEqual(engine.getConfig().timerConfig.redLightDuration, 7);
+
+            engine.stop();
+            assert.strictEqual(settingsManager.toGameConfig().timerConfig.greenLightDuration, DEFAULT_SETTINGS.greenLightDuration);
+        } finally {
+            setConfiguration('redLightDuration', undefined);
+            gameCommands.dispose();
+            actionHandler.dispose();
+            engine.dispose();
+        }
+    });
+});
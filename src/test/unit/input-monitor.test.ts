@@ -0,0 +1,369 @@
+import {
+    appliedEdits,
+    executedCommands,
+    fireWindowEvent,
+    fireWorkspaceEvent,
+    registeredCommands,
+    resetWorkspaceListeners,
+    setFileContent,
+    vscodeStub
+} from './vscode-stub';
+import * as assert from 'assert';
+import { GameEngine } from '../../game/game-engine';
+import { InputMonitor } from '../../services/input-monitor';
+import { DocumentFilter } from '../../services/document-filter';
+import { SettingsManager } from '../../config/settings-manager';
+import {
+    ChangeSource,
+    GameState,
+    RedLightAction,
+    RedLightViolationEvent,
+    ViolationKind
+} from '../../types/game-types';
+import { DEFAULT_SETTINGS } from '../../types/settings-types';
+import { FakeClock } from './fake-clock';
+import { createChangeEvent, createGameConfig } from './test-config';
+
+suite('InputMonitor', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let settingsManager: SettingsManager;
+    let documentFilter: DocumentFilter;
+    let monitor: InputMonitor;
+    let violations: RedLightViolationEvent[];
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig({ greenLightDuration: 10, redLightDuration: 5 }), { clock });
+        settingsManager = new SettingsManager();
+        documentFilter = new DocumentFilter(settingsManager);
+        monitor = new InputMonitor(engine, documentFilter);
+        monitor.updateGracePeriod(0.5);
+        violations = [];
+        monitor.onViolation(event => violations.push(event));
+
+        engine.start();
+        monitor.startMonitoring();
+
+        // Edits land in the active editor at its cursor
+        vscodeStub.window.activeTextEditor = {
+            document: createChangeEvent('').document,
+            selections: [{ active: { line: 0, character: 0 } }]
+        };
+    });
+
+    teardown(() => {
+        monitor.dispose();
+        documentFilter.dispose();
+        settingsManager.dispose();
+        engine.dispose();
+        resetWorkspaceListeners();
+    });
+
+    // Changes are classified once the changes delivered with them are in
+    function change(event: unknown): void {
+        fireWorkspaceEvent('onDidChangeTextDocument', event);
+        clock.tick(0);
+    }
+
+    function type(text: string): void {
+        change(createChangeEvent(text));
+    }
+
+    test('typing during green light is not a violation', () => {
+        type('a');
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('typing within the grace period after red light starts is allowed', () => {
+        clock.tick(10_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+
+        clock.tick(500);
+        type('a');
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('typing after the grace period is a violation', () => {
+        clock.tick(10_000);
+        clock.tick(501);
+        type('a');
+
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].documentUri, 'file:///workspace/file.ts');
+        assert.strictEqual(violations[0].changeText, 'Added: "a"');
+        assert.strictEqual(violations[0].timestamp, clock.now());
+    });
+
+    test('timer ticks during red light do not restart the grace period', () => {
+        clock.tick(10_000);
+        clock.tick(1000);
+
+        // A tick has just fired; typing right after it is still a violation
+        clock.tick(100);
+        type('a');
+        assert.strictEqual(violations.length, 1);
+    });
+
+    test('a red phase that follows another red phase grants no new grace period', () => {
+        engine.stop();
+        engine.updateConfig(createGameConfig({
+            schedule: [
+                { state: GameState.RedLight, duration: 2 },
+                { state: GameState.RedLight, duration: 3 }
+            ]
+        }));
+        engine.start();
+
+        clock.tick(2000);
+        clock.tick(100);
+        type('a');
+        assert.strictEqual(violations.length, 1);
+    });
+
+    test('the grace period starts at the phase boundary even when the timer fires late', () => {
+        clock.setLatency(300);
+        engine.stop();
+        engine.start();
+
+        // Red light is due at 10s but its timer only fires at 10.3s
+        clock.tick(10_300);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+        clock.setLatency(0);
+
+        clock.tick(201);
+        type('a');
+        assert.strictEqual(violations.length, 1);
+    });
+
+    test('grace period updates apply to the current red phase', () => {
+        clock.tick(10_000);
+        clock.tick(1500);
+
+        monitor.updateGracePeriod(2);
+        type('a');
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('edits outside red light do not read the document text', () => {
+        let reads = 0;
+        const event = createChangeEvent('a');
+        event.document.getText = () => {
+            reads++;
+            return 'a';
+        };
+
+        fireWorkspaceEvent('onDidChangeTextDocument', event);
+        engine.stop();
+        fireWorkspaceEvent('onDidChangeTextDocument', event);
+
+        assert.strictEqual(reads, 0);
+    });
+
+    test('typing during yellow light is allowed and the grace period starts at red', () => {
+        engine.updateConfig(createGameConfig({ greenLightDuration: 10, yellowLightDuration: 2, redLightDuration: 5 }));
+        clock.tick(10_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.YellowLight);
+
+        type('a');
+        clock.tick(2000);
+        assert.strictEqual(engine.getCurrentState(), GameState.RedLight);
+
+        clock.tick(400);
+        type('b');
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('terminal commands during red light are ignored unless terminal monitoring is on', () => {
+        const runCommand = () => fireWindowEvent('onDidStartTerminalShellExecution', {
+            terminal: { name: 'zsh' },
+            execution: { commandLine: { value: 'npm test' } }
+        });
+        clock.tick(11_000);
+
+        runCommand();
+        assert.strictEqual(violations.length, 0);
+
+        monitor.updateTerminalMonitoring(true);
+        runCommand();
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].documentUri, 'zsh');
+        assert.strictEqual(violations[0].changeText, 'npm test');
+    });
+
+    test('hard mode counts cursor movement once per movement and honours its toggles', () => {
+        const moveCursor = (character: number) => fireWindowEvent('onDidChangeTextEditorSelection', {
+            textEditor: { document: createChangeEvent('').document },
+            selections: [{ active: { line: 0, character } }]
+        });
+        clock.tick(11_000);
+
+        moveCursor(1);
+        assert.strictEqual(violations.length, 0);
+
+        monitor.updateHardMode({ enabled: true, selection: true, scroll: true, editorSwitch: true });
+        moveCursor(2);
+        moveCursor(3);
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].kind, ViolationKind.Selection);
+        assert.strictEqual(violations[0].changeText, 'Cursor moved to 1:3');
+
+        // The cursor change that follows an edit belongs to the edit
+        clock.tick(500);
+        type('a');
+        moveCursor(4);
+        assert.deepStrictEqual(violations.map(violation => violation.kind), [ViolationKind.Selection, ViolationKind.Edit]);
+
+        clock.tick(500);
+        monitor.updateHardMode({ enabled: true, selection: false, scroll: true, editorSwitch: true });
+        moveCursor(5);
+        assert.strictEqual(violations.length, 2);
+    });
+
+    test('saves during red light are deferred to the next green light', async () => {
+        let text = 'saved edit';
+        let saves = 0;
+        const document = {
+            ...createChangeEvent(text).document,
+            isClosed: false,
+            isDirty: true,
+            getText: () => text,
+            positionAt: (offset: number) => ({ line: 0, character: offset }),
+            save: async () => {
+                saves++;
+                return true;
+            }
+        };
+        let participant: Promise<{ newText: string }[]> | undefined;
+
+        monitor.updateDeferredSaves(true);
+        setFileContent('file:///workspace/file.ts', 'saved');
+        clock.tick(11_000);
+
+        fireWorkspaceEvent('onWillSaveTextDocument', {
+            document,
+            waitUntil: (edits: Promise<{ newText: string }[]>) => participant = edits
+        });
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].changeText, 'Document save deferred');
+
+        // The save writes the content already on disk, and format on save edits are not violations
+        const edits = await participant!;
+        assert.deepStrictEqual(edits.map(edit => edit.newText), ['']);
+        text = 'saved';
+        type('formatted');
+        assert.strictEqual(violations.length, 1);
+
+        // Afterwards the unsaved text is put back
+        fireWorkspaceEvent('onDidSaveTextDocument', document);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.deepStrictEqual(appliedEdits[0].replacements.map(edit => edit.newText), [' edit']);
+        text = 'saved edit';
+        assert.strictEqual(saves, 0);
+
+        clock.tick(4000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(saves, 1);
+        assert.strictEqual(monitor.getDeferredSaveCount(), 0);
+    });
+
+    test('edits count again when a red light save never completes', async () => {
+        engine.stop();
+        engine.updateConfig(createGameConfig({ greenLightDuration: 10, redLightDuration: 30 }));
+        engine.start();
+        clock.tick(11_000);
+        fireWorkspaceEvent('onWillSaveTextDocument', {
+            document: createChangeEvent('').document,
+            waitUntil: () => undefined
+        });
+        assert.strictEqual(violations.length, 1);
+
+        // Edits made while saving belong to the save
+        type('formatted');
+        assert.strictEqual(violations.length, 1);
+
+        // The save failed, so no save completion arrives
+        clock.tick(5000);
+        await new Promise(resolve => setImmediate(resolve));
+        type('a');
+        assert.deepStrictEqual(violations.map(violation => violation.kind), [ViolationKind.Save, ViolationKind.Edit]);
+    });
+
+        test('blocking drops red light typing, counts a burst once and hands typing back', async () => {
+        vscodeStub.window.activeTextEditor = { document: createChangeEvent('').document };
+        monitor.updateTypingBlock(true);
+        assert.ok(!registeredCommands.has('type'));
+
+        clock.tick(10_000);
+        assert.ok(monitor.isTypingBlocked());
+
+        // Within the grace period keystrokes are passed on to VS Code
+        await registeredCommands.get('type')!({ text: 'a' });
+        assert.deepStrictEqual(executedCommands.map(entry => entry.command), ['default:type']);
+
+        clock.tick(501);
+        await registeredCommands.get('type')!({ text: 'b' });
+        await registeredCommands.get('type')!({ text: 'c' });
+        await registeredCommands.get('paste')!({ text: 'pasted' });
+        assert.strictEqual(executedCommands.length, 1);
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].kind, ViolationKind.Edit);
+        assert.strictEqual(violations[0].changeText, 'Blocked: "b"');
+
+        engine.stop();
+        assert.ok(!monitor.isTypingBlocked());
+        assert.ok(!registeredCommands.has('type') && !registeredCommands.has('paste'));
+    });
+
+    test('undo during red light only counts when its change source is switched on', () => {
+        const undo = () => change({
+            ...createChangeEvent('a'),
+            reason: vscodeStub.TextDocumentChangeReason.Undo
+        });
+        clock.tick(10_501);
+
+        undo();
+        assert.strictEqual(violations.length, 0);
+
+        monitor.updateChangeSources({ ...DEFAULT_SETTINGS.changeSources, undo: true });
+        undo();
+        type('b');
+        assert.deepStrictEqual(violations.map(violation => violation.changeSource), [ChangeSource.Undo, ChangeSource.Typed]);
+    });
+
+    test('while locked, undo is rolled back whether or not it counts as a violation', async () => {
+        monitor.updatePenaltyLadder({
+            enabled: true,
+            windowSeconds: 60,
+            steps: [{ violations: 1, action: RedLightAction.Lock, lockDuration: 10 }]
+        });
+        clock.tick(10_501);
+
+        type('a');
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(violations.length, 1);
+        assert.ok(monitor.isTypingLocked());
+        assert.strictEqual(appliedEdits.length, 1);
+
+        change({ ...createChangeEvent('a'), reason: vscodeStub.TextDocumentChangeReason.Undo });
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(appliedEdits.length, 2);
+    });
+
+    test('an edit that stops the game before it is classified is not a violation', () => {
+        clock.tick(10_501);
+        fireWorkspaceEvent('onDidChangeTextDocument', createChangeEvent('a'));
+        engine.stop();
+        clock.tick(0);
+        assert.strictEqual(violations.length, 0);
+    });
+
+    test('nothing is a violation once monitoring stops', () => {
+        clock.tick(12_000);
+        monitor.stopMonitoring();
+        type('a');
+        assert.strictEqual(violations.length, 0);
+    });
+});
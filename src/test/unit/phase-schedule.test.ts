@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { expandSchedule, MAX_SCHEDULE_REPEAT } from '../../game/phase-schedule';
+import { GameState } from '../../types/game-types';
+
+suite('expandSchedule', () => {
+    test('repeats blocks in order', () => {
+        const phases = expandSchedule([
+            { phases: [{ light: 'green', duration: 25 }, { light: 'red', duration: 5 }], repeat: 2 },
+            { phases: [{ light: 'red', duration: 900 }] }
+        ]);
+
+        assert.deepStrictEqual(phases, [
+            { state: GameState.GreenLight, duration: 25 },
+            { state: GameState.RedLight, duration: 5 },
+            { state: GameState.GreenLight, duration: 25 },
+            { state: GameState.RedLight, duration: 5 },
+            { state: GameState.RedLight, duration: 900 }
+        ]);
+    });
+
+    test('ramps durations by the step on each repeat and clamps at one second', () => {
+        const phases = expandSchedule([
+            { phases: [{ light: 'green', duration: 20, step: -8 }], repeat: 4 }
+        ]);
+
+        assert.deepStrictEqual(phases.map(phase => phase.duration), [20, 12, 4, 1]);
+    });
+
+    test('caps repeats that were not validated', () => {
+        const phases = expandSchedule([
+            { phases: [{ light: 'green', duration: 5 }], repeat: 1e9 }
+        ]);
+
+        assert.strictEqual(phases.length, MAX_SCHEDULE_REPEAT);
+    });
+});
@@ -0,0 +1,124 @@
+import { resetConfiguration, resetWorkspaceListeners, setConfiguration } from './vscode-stub';
+import * as assert from 'assert';
+import { SettingsChangeEvent, SettingsManager } from '../../config/settings-manager';
+import {
+    captureProfile,
+    findProfile,
+    matchesProfile,
+    parseProfiles,
+    resolveProfileSettings,
+    serializeProfiles
+} from '../../config/profiles';
+import { DEFAULT_SETTINGS, ExtensionSettings } from '../../types/settings-types';
+
+suite('Profiles', () => {
+    test('presets fill the settings they leave out with defaults', () => {
+        const normal = findProfile('Normal', [])!;
+        const settings = { ...DEFAULT_SETTINGS, ...resolveProfileSettings(normal) };
+
+        assert.deepStrictEqual(settings, DEFAULT_SETTINGS);
+        assert.ok(matchesProfile(DEFAULT_SETTINGS, normal));
+        assert.ok(!matchesProfile(DEFAULT_SETTINGS, findProfile('Hard', [])!));
+    });
+
+    test('settings changed after applying a profile no longer match it', () => {
+        const hard = findProfile('Hard', [])!;
+        const applied: ExtensionSettings = { ...DEFAULT_SETTINGS, ...resolveProfileSettings(hard) };
+
+        // Key order of settings objects does not matter
+        const reordered = { ...applied, randomTiming: { maxTime: 15, minTime: 3 } };
+        assert.ok(matchesProfile(reordered, hard));
+        assert.ok(!matchesProfile({ ...applied, gracePeriod: 1 }, hard));
+    });
+
+    test('saved profiles cannot shadow built-in presets', () => {
+        const saved = [{ name: 'Easy', settings: { redLightDuration: 30 } }];
+        assert.strictEqual(findProfile('Easy', saved)!.settings.redLightDuration, 3);
+    });
+
+    test('export and import round-trip saved profiles', () => {
+        const profile = captureProfile('Pairing', { ...DEFAULT_SETTINGS, redLightDuration: 7, showTimer: false });
+
+        const imported = parseProfiles(serializeProfiles([profile]));
+        assert.deepStrictEqual(imported, [profile]);
+        assert.strictEqual(imported[0].settings.redLightDuration, 7);
+        assert.ok(!('showTimer' in imported[0].settings));
+    });
+
+    test('import keeps only profile settings and rejects malformed files', () => {
+        const imported = parseProfiles(JSON.stringify({
+            profiles: [{ name: ' Focus ', settings: { gracePeriod: 0.2, enableSounds: true } }]
+        }));
+        assert.deepStrictEqual(imported, [{ name: 'Focus', settings: { gracePeriod: 0.2 } }]);
+
+        assert.throws(() => parseProfiles('not json'), /not valid JSON/);
+        assert.throws(() => parseProfiles('{}'), /profiles list/);
+        assert.throws(() => parseProfiles('{"profiles": [{"settings": {}}]}'), /Profile 1 has no name/);
+        assert.throws(
+            () => parseProfiles('{"profiles": [{"name": "Focus", "settings": {"redLightDuration": "5"}}]}'),
+            /"redLightDuration" must be a number, not a string/
+        );
+    });
+});
+
+suite('Applying profiles', () => {
+    let settingsManager: SettingsManager;
+
+    setup(() => {
+        settingsManager = new SettingsManager();
+    });
+
+    teardown(() => {
+        settingsManager.dispose();
+        resetConfiguration();
+        resetWorkspaceListeners();
+    });
+
+    test('listeners hear about a profile once all of its settings are written', async () => {
+        const events: SettingsChangeEvent[] = [];
+        settingsManager.onSettingsChange(event => events.push(event));
+
+        await settingsManager.applyProfile('Easy');
+
+        assert.strictEqual(events.length, 1);
+        assert.strictEqual(events[0].currentSettings.redLightDuration, 3);
+        assert.strictEqual(events[0].currentSettings.activeProfile, 'Easy');
+        assert.ok(!events[0].changedKeys.includes('documentRules'));
+    });
+
+    test('settings that are rebuilt on load but unchanged are not reported', async () => {
+        const events: SettingsChangeEvent[] = [];
+        settingsManager.onSettingsChange(event => events.push(event));
+
+        await settingsManager.updateSettings({ redLightDuration: 8 });
+
+        assert.deepStrictEqual(events.map(event => event.changedKeys), [['redLightDuration']]);
+    });
+
+    test('profiles with invalid settings are neither saved nor applied', async () => {
+        await assert.rejects(
+            settingsManager.saveProfiles([{ name: 'Broken', settings: { redLightDuration: -5 } }]),
+            /Profile "Broken" has invalid settings: Red light duration must be between 1 and 60 seconds/
+        );
+
+        await settingsManager.updateSettings({
+            profiles: [{ name: 'Broken', settings: { penaltyLadder: { enabled: true, windowSeconds: 0, steps: [] } } }]
+        });
+        await assert.rejects(settingsManager.applyProfile('Broken'), /at least one step/);
+        assert.strictEqual(settingsManager.getSetting('activeProfile'), '');
+    });
+
+    test('warnings about imported profiles are passed on', async () => {
+        const warnings = await settingsManager.saveProfiles([{ name: 'Strict', settings: { redLightAction: 'close' } }]);
+        assert.deepStrictEqual(warnings, ['Profile "Strict": Close action will terminate VSCode when typing during red light']);
+    });
+
+    test('profile settings kept at workspace scope are reported', async () => {
+        setConfiguration('gracePeriod', 2, 'workspace');
+
+        const overriddenKeys = await settingsManager.applyProfile('Easy');
+
+        assert.deepStrictEqual(overriddenKeys, ['gracePeriod']);
+        assert.strictEqual(settingsManager.getSetting('gracePeriod'), 2);
+    });
+});
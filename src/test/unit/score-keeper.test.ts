@@ -0,0 +1,143 @@
+import { fireWorkspaceEvent, resetWorkspaceListeners, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import { GameEngine } from '../../game/game-engine';
+import { InputMonitor } from '../../services/input-monitor';
+import { DocumentFilter } from '../../services/document-filter';
+import { SettingsManager } from '../../config/settings-manager';
+import {
+    ScoreKeeper,
+    getStreakMultiplier,
+    getTypingPoints,
+    getViolationPenalty
+} from '../../services/score-keeper';
+import { DEFAULT_SETTINGS } from '../../types/settings-types';
+import { GameState, RedLightAction } from '../../types/game-types';
+import { FakeClock } from './fake-clock';
+import { createChangeEvent, createGameConfig } from './test-config';
+
+suite('Scoring formula', () => {
+    const scoring = DEFAULT_SETTINGS.scoring;
+
+    test('clean red lights raise the multiplier up to the maximum', () => {
+        assert.strictEqual(getStreakMultiplier(0, scoring), 1);
+        assert.strictEqual(getStreakMultiplier(2, scoring), 2);
+        assert.strictEqual(getStreakMultiplier(10, scoring), 3);
+        assert.strictEqual(getStreakMultiplier(4, { ...scoring, maxMultiplier: 0.5 }), 1);
+    });
+
+    test('typing points are rounded and penalties scale with the characters typed', () => {
+        assert.strictEqual(getTypingPoints(5, 0, scoring), 5);
+        assert.strictEqual(getTypingPoints(3, 1, scoring), 5);
+        assert.strictEqual(getViolationPenalty(0, scoring), 25);
+        assert.strictEqual(getViolationPenalty(4, scoring), 33);
+    });
+});
+
+suite('ScoreKeeper', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let settingsManager: SettingsManager;
+    let documentFilter: DocumentFilter;
+    let monitor: InputMonitor;
+    let scoreKeeper: ScoreKeeper;
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig({ greenLightDuration: 10, redLightDuration: 5 }), { clock });
+        settingsManager = new SettingsManager();
+        documentFilter = new DocumentFilter(settingsManager);
+        monitor = new InputMonitor(engine, documentFilter);
+        monitor.updateGracePeriod(0.5);
+        scoreKeeper = new ScoreKeeper(engine, monitor, DEFAULT_SETTINGS.scoring);
+
+        engine.start();
+        monitor.startMonitoring();
+
+        vscodeStub.window.activeTextEditor = {
+            document: createChangeEvent('').document,
+            selections: [{ active: { line: 0, character: 0 } }]
+        };
+    });
+
+    teardown(() => {
+        scoreKeeper.dispose();
+        monitor.dispose();
+        documentFilter.dispose();
+        settingsManager.dispose();
+        engine.dispose();
+        resetWorkspaceListeners();
+    });
+
+    function type(text: string): void {
+        fireWorkspaceEvent('onDidChangeTextDocument', createChangeEvent(text));
+        clock.tick(0);
+    }
+
+    test('typing during green light earns points for characters other than whitespace', () => {
+        type('ab c');
+        type('\n    ');
+        assert.strictEqual(scoreKeeper.getScore(), 3);
+    });
+
+    test('a clean red light multiplies the points for typing', () => {
+        clock.tick(10_000);
+        clock.tick(5_000);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.strictEqual(scoreKeeper.getCleanStreak(), 1);
+
+        type('abcd');
+        assert.strictEqual(scoreKeeper.getScore(), 6);
+    });
+
+    test('violations deduct points without going below zero and reset the streak', () => {
+        type('a'.repeat(19));
+        clock.tick(10_000);
+        clock.tick(5_000);
+        type('a'.repeat(19));
+        assert.strictEqual(scoreKeeper.getScore(), 48);
+
+        clock.tick(10_000);
+        clock.tick(501);
+        type('ab');
+        assert.strictEqual(scoreKeeper.getScore(), 19);
+        assert.strictEqual(scoreKeeper.getCleanStreak(), 0);
+
+        type('abcdef');
+        assert.strictEqual(scoreKeeper.getScore(), 0);
+
+        // A violated red light does not count towards the streak
+        clock.tick(5_000);
+        assert.strictEqual(scoreKeeper.getMultiplier(), 1);
+    });
+
+    test('edits the monitor rolls back or does not monitor earn no points', () => {
+        monitor.updatePenaltyLadder({
+            enabled: true,
+            windowSeconds: 60,
+            steps: [{ violations: 1, action: RedLightAction.Lock, lockDuration: 10 }]
+        });
+        clock.tick(10_501);
+        type('a');
+        clock.tick(4_499);
+        assert.strictEqual(engine.getCurrentState(), GameState.GreenLight);
+        assert.ok(monitor.isTypingLocked());
+
+        type('abc');
+        monitor.stopMonitoring();
+        type('abc');
+        assert.strictEqual(scoreKeeper.getScore(), 0);
+    });
+
+    test('the final score is kept until the next session starts', () => {
+        const scores: number[] = [];
+        scoreKeeper.onScoreChange(score => scores.push(score));
+
+        type('abc');
+        engine.stop();
+        assert.strictEqual(scoreKeeper.getScore(), 3);
+
+        engine.start();
+        assert.strictEqual(scoreKeeper.getScore(), 0);
+        assert.deepStrictEqual(scores, [3, 0]);
+    });
+});
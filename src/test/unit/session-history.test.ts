@@ -0,0 +1,49 @@
+import { resetWorkspaceListeners } from './vscode-stub';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GameEngine } from '../../game/game-engine';
+import { HistoryExportFormat, SessionHistory } from '../../services/session-history';
+import { RedLightAction, ViolationKind } from '../../types/game-types';
+import { FakeClock } from './fake-clock';
+import { createGameConfig } from './test-config';
+
+suite('SessionHistory', () => {
+    let clock: FakeClock;
+    let engine: GameEngine;
+    let storageDirectory: string;
+    let history: SessionHistory;
+
+    setup(() => {
+        clock = new FakeClock();
+        engine = new GameEngine(createGameConfig(), { clock });
+        storageDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-history-'));
+        history = new SessionHistory({ fsPath: storageDirectory } as vscode.Uri, engine);
+    });
+
+    teardown(() => {
+        history.dispose();
+        engine.dispose();
+        fs.rmSync(storageDirectory, { recursive: true, force: true });
+        resetWorkspaceListeners();
+    });
+
+    test('CSV cells that a spreadsheet would run as formulas are escaped', async () => {
+        engine.start();
+        history.recordViolation({
+            timestamp: clock.now(),
+            documentUri: '@terminal',
+            kind: ViolationKind.Terminal,
+            changeText: '=HYPERLINK("http://example.com")',
+            actionTaken: RedLightAction.Warn
+        });
+        engine.stop();
+
+        const violationRow = (await history.export(HistoryExportFormat.Csv))
+            .split('\n')
+            .find(row => row.includes(',violation,'))!;
+        assert.ok(violationRow.includes(`,'@terminal,"'=HYPERLINK(""http://example.com"")",warn,terminal,`));
+    });
+});
@@ -0,0 +1,74 @@
+import { resetWorkspaceListeners, setConfiguration, setFileContent, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import { SettingsManager } from '../../config/settings-manager';
+import { parseTeamConfig } from '../../config/team-config';
+
+suite('Team config', () => {
+    let settingsManager: SettingsManager;
+
+    setup(() => {
+        vscodeStub.workspace.workspaceFolders = [{ uri: vscodeStub.Uri.file('/repo'), name: 'repo', index: 0 }];
+        settingsManager = new SettingsManager();
+    });
+
+    teardown(() => {
+        settingsManager.dispose();
+        vscodeStub.workspace.workspaceFolders = undefined;
+        vscodeStub.workspace.isTrusted = true;
+        setConfiguration('redLightDuration', undefined);
+        setConfiguration('redLightDuration', undefined, 'workspace');
+        resetWorkspaceListeners();
+    });
+
+    test('reports unknown keys and wrong types and merges objects over defaults', () => {
+        const parsed = parseTeamConfig(JSON.stringify({
+            '$schema': './schema.json',
+            'redLightGreenLight.greenLightDuration': 20,
+            'documentRules': { exclude: ['generated/**'] },
+            'redLightDurtion': 5,
+            'gracePeriod': '1'
+        }), '.redlight.json');
+
+        assert.strictEqual(parsed.settings.greenLightDuration, 20);
+        assert.deepStrictEqual(parsed.settings.documentRules?.exclude, ['generated/**']);
+        assert.deepStrictEqual(parsed.settings.documentRules?.schemes, ['file', 'untitled']);
+        assert.deepStrictEqual(parsed.problems, [
+            '.redlight.json: unknown setting "redLightDurtion" (ignored)',
+            '.redlight.json: "gracePeriod" must be a number, not a string (ignored)'
+        ]);
+
+        assert.match(parseTeamConfig('{ oops', '.redlight.json').problems[0], /not valid JSON/);
+    });
+
+    test('sits between user and workspace settings', async () => {
+        setFileContent('file:///repo/.vscode/redlight.json', JSON.stringify({ redLightDuration: 20 }));
+        setConfiguration('redLightDuration', 8);
+
+        await settingsManager.loadTeamConfig();
+        assert.strictEqual(settingsManager.getSetting('redLightDuration'), 20);
+        assert.strictEqual(settingsManager.getDisplaySettings()['Team Config'], '.vscode/redlight.json');
+
+        setConfiguration('redLightDuration', 12, 'workspace');
+        await settingsManager.loadTeamConfig();
+        assert.strictEqual(settingsManager.getSetting('redLightDuration'), 12);
+    });
+
+    test('invalid values are reported against the file', async () => {
+        setFileContent('file:///repo/.redlight.json', JSON.stringify({ redLightDuration: 600, colour: 'red' }));
+
+        await settingsManager.loadTeamConfig();
+        const validation = settingsManager.validateSettings();
+
+        assert.deepStrictEqual(validation.errors, ['.redlight.json: Red light duration must be between 1 and 60 seconds']);
+        assert.ok(validation.warnings.includes('.redlight.json: unknown setting "colour" (ignored)'));
+        assert.strictEqual(settingsManager.getTeamConfigProblems().length, 2);
+    });
+
+    test('is ignored in untrusted workspaces', async () => {
+        setFileContent('file:///repo/.redlight.json', JSON.stringify({ redLightDuration: 20 }));
+        vscodeStub.workspace.isTrusted = false;
+
+        await settingsManager.loadTeamConfig();
+        assert.strictEqual(settingsManager.getSetting('redLightDuration'), 5);
+    });
+});
@@ -0,0 +1,68 @@
+import { GameConfig, RedLightAction, TimerConfig } from '../../types/game-types';
+
+/**
+ * Creates a timer configuration for tests
+ * @param overrides Values to override
+ */
+export function createTimerConfig(overrides: Partial<TimerConfig> = {}): TimerConfig {
+    return {
+        redLightDuration: 5,
+        greenLightDuration: 10,
+        yellowLightDuration: 0,
+        useRandomTiming: false,
+        maxRandomTime: 15,
+        minRandomTime: 3,
+        randomSeed: '',
+        schedule: [],
+        loopSchedule: false,
+        ...overrides
+    };
+}
+
+/**
+ * Creates a game configuration for tests
+ * @param timerOverrides Timer values to override
+ * @param overrides Game values to override
+ */
+export function createGameConfig(
+    timerOverrides: Partial<TimerConfig> = {},
+    overrides: Partial<GameConfig> = {}
+): GameConfig {
+    return {
+        timerConfig: createTimerConfig(timerOverrides),
+        redLightAction: RedLightAction.Warn,
+        penaltyLadder: { enabled: false, windowSeconds: 0, steps: [] },
+        gracePeriod: 0.5,
+        showTimer: true,
+        enableSounds: false,
+        ...overrides
+    };
+}
+
+/**
+ * Creates a minimal text document change event inserting text at the start of
+ * /workspace/file.ts, where the cursor of the active editor is in most tests
+ * @param text Inserted text
+ */
+export function createChangeEvent(text: string) {
+    const uri = { scheme: 'file', path: '/workspace/file.ts', toString: () => 'file:///workspace/file.ts' };
+    return {
+        document: {
+            uri,
+            languageId: 'typescript',
+            version: 1,
+            isDirty: true,
+            lineCount: 1,
+            getText: () => text,
+            lineAt: () => ({ range: { end: { line: 0, character: text.length } } }),
+            offsetAt: (position: { character: number }) => position.character,
+            positionAt: (offset: number) => ({ line: 0, character: offset })
+        },
+        contentChanges: [{
+            text,
+            rangeOffset: 0,
+            rangeLength: 0,
+            range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+        }]
+    };
+}
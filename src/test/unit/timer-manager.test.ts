@@ -0,0 +1,153 @@
+import './vscode-stub';
+import * as assert from 'assert';
+import { TimerManager, TimerMode } from '../../game/timer-manager';
+import { createRandomSource } from '../../game/random-source';
+import { FakeClock } from './fake-clock';
+import { createTimerConfig } from './test-config';
+
+suite('TimerManager', () => {
+    let clock: FakeClock;
+    let ticks: Array<[TimerMode, number]>;
+    let completed: TimerMode[];
+
+    setup(() => {
+        clock = new FakeClock();
+        ticks = [];
+        completed = [];
+    });
+
+    function createTimer(overrides = {}, randomSeed?: string): TimerManager {
+        return new TimerManager(
+            createTimerConfig(overrides),
+            (mode, remaining) => ticks.push([mode, remaining]),
+            mode => completed.push(mode),
+            { clock, randomSource: randomSeed === undefined ? undefined : createRandomSource(randomSeed) }
+        );
+    }
+
+    test('counts down once per second and completes after the phase duration', () => {
+        const timer = createTimer({ greenLightDuration: 3 });
+        timer.startTimer(TimerMode.GreenLight);
+
+        assert.deepStrictEqual(ticks, [[TimerMode.GreenLight, 3]]);
+
+        clock.tick(2000);
+        assert.strictEqual(timer.getRemainingTime(), 1);
+        assert.deepStrictEqual(completed, []);
+
+        clock.tick(1000);
+        assert.deepStrictEqual(completed, [TimerMode.GreenLight]);
+        assert.strictEqual(timer.isActive(), false);
+        assert.strictEqual(clock.pendingTimers(), 0);
+    });
+
+    test('pause keeps the remaining time and resume continues from it', () => {
+        const timer = createTimer({ redLightDuration: 5 });
+        timer.startTimer(TimerMode.RedLight);
+        clock.tick(2000);
+
+        timer.pause();
+        assert.strictEqual(timer.isPaused(), true);
+        clock.tick(60_000);
+        assert.strictEqual(timer.getRemainingTime(), 3);
+        assert.deepStrictEqual(completed, []);
+
+        timer.resume();
+        clock.tick(3000);
+        assert.deepStrictEqual(completed, [TimerMode.RedLight]);
+    });
+
+    test('config updates mid-phase only apply to the next phase', () => {
+        const timer = createTimer({ greenLightDuration: 10 });
+        timer.startTimer(TimerMode.GreenLight);
+        clock.tick(4000);
+
+        timer.updateConfig(createTimerConfig({ greenLightDuration: 2 }));
+        assert.strictEqual(timer.getRemainingTime(), 6);
+
+        clock.tick(6000);
+        assert.deepStrictEqual(completed, [TimerMode.GreenLight]);
+
+        timer.startTimer(TimerMode.GreenLight);
+        assert.strictEqual(timer.getRemainingTime(), 2);
+    });
+
+    test('supports fractional durations', () => {
+        const timer = createTimer({ redLightDuration: 2.5 });
+        timer.startTimer(TimerMode.RedLight);
+        assert.strictEqual(timer.getRemainingTime(), 3);
+
+        clock.tick(500);
+        assert.strictEqual(timer.getRemainingMilliseconds(), 2000);
+        assert.deepStrictEqual(ticks.map(([, remaining]) => remaining), [3, 2]);
+
+        clock.tick(1999);
+        assert.deepStrictEqual(completed, []);
+
+        clock.tick(1);
+        assert.deepStrictEqual(completed, [TimerMode.RedLight]);
+        assert.deepStrictEqual(ticks.map(([, remaining]) => remaining), [3, 2, 1, 0]);
+    });
+
+    test('late timer callbacks do not accumulate drift', () => {
+        const timer = createTimer({ greenLightDuration: 10 });
+        clock.setLatency(40);
+        timer.startTimer(TimerMode.GreenLight);
+
+        clock.tick(10_000);
+        assert.deepStrictEqual(completed, []);
+
+        // Only the final callback is late; earlier late ticks are absorbed by the deadline
+        clock.tick(40);
+        assert.deepStrictEqual(completed, [TimerMode.GreenLight]);
+        assert.deepStrictEqual(ticks.map(([, remaining]) => remaining), [10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 0]);
+    });
+
+    test('a phase started on completion begins at the previous deadline', () => {
+        const timer: TimerManager = new TimerManager(
+            createTimerConfig({ greenLightDuration: 3, redLightDuration: 5 }),
+            () => undefined,
+            mode => {
+                completed.push(mode);
+                if (mode === TimerMode.GreenLight) {
+                    timer.startTimer(TimerMode.RedLight);
+                }
+            },
+            { clock }
+        );
+        const start = clock.monotonicNow();
+        clock.setLatency(100);
+        timer.startTimer(TimerMode.GreenLight);
+
+        clock.tick(3100);
+        assert.strictEqual(timer.getPhaseStartTime(), start + 3000);
+        assert.strictEqual(timer.getRemainingMilliseconds(), 4900);
+    });
+
+    test('stop clears pending timers', () => {
+        const timer = createTimer();
+        timer.startTimer(TimerMode.GreenLight);
+        timer.stop();
+
+        assert.strictEqual(clock.pendingTimers(), 0);
+        assert.strictEqual(timer.getCurrentMode(), null);
+    });
+
+    test('the same seed produces the same random phase schedule', () => {
+        const schedule = (seed: string): number[] => {
+            const timer = createTimer({ useRandomTiming: true, minRandomTime: 1, maxRandomTime: 60 }, seed);
+            const durations: number[] = [];
+            for (let i = 0; i < 8; i++) {
+                timer.startTimer(i % 2 === 0 ? TimerMode.GreenLight : TimerMode.RedLight);
+                durations.push(timer.getRemainingTime());
+            }
+            timer.dispose();
+            return durations;
+        };
+
+        const first = schedule('team-seed');
+        assert.deepStrictEqual(schedule('team-seed'), first);
+        assert.notDeepStrictEqual(schedule('other-seed'), first);
+        first.forEach(duration => assert.ok(duration >= 1 && duration <= 60));
+    });
+});
@@ -0,0 +1,69 @@
+import { executedCommands, registeredCommands, resetWorkspaceListeners, vscodeStub } from './vscode-stub';
+import * as assert from 'assert';
+import { BlockedInput, TypingBlocker } from '../../services/typing-blocker';
+
+suite('TypingBlocker', () => {
+    let block: boolean;
+    let blocked: BlockedInput[];
+    let blocker: TypingBlocker;
+
+    setup(() => {
+        block = true;
+        blocked = [];
+        blocker = new TypingBlocker(() => block, input => blocked.push(input));
+    });
+
+    teardown(() => {
+        blocker.dispose();
+        resetWorkspaceListeners();
+    });
+
+    test('forwards input it should not block to the built-in commands', async () => {
+        assert.ok(blocker.engage());
+
+        await registeredCommands.get('type')!({ text: 'x' });
+        assert.deepStrictEqual(blocked, [{ command: 'type', text: 'x' }]);
+
+        block = false;
+        await registeredCommands.get('paste')!({ text: 'y' });
+        assert.deepStrictEqual(executedCommands, [{ command: 'default:paste', args: [{ text: 'y' }] }]);
+    });
+
+    test('errors while deciding never swallow keystrokes', async () => {
+        const originalError = console.error;
+        console.error = () => undefined;
+        try {
+            blocker = new TypingBlocker(() => {
+                throw new Error('broken');
+            }, input => blocked.push(input));
+            blocker.engage();
+            await registeredCommands.get('type')!({ text: 'x' });
+        } finally {
+            console.error = originalError;
+        }
+
+        assert.deepStrictEqual(blocked, []);
+        assert.deepStrictEqual(executedCommands.map(entry => entry.command), ['default:type']);
+    });
+
+    test('gives up without side effects when another extension owns typing', () => {
+        const otherOwner = vscodeStub.commands.registerCommand('type', () => undefined);
+        const originalError = console.error;
+        console.error = () => undefined;
+        try {
+            assert.ok(!blocker.engage());
+            assert.ok(!blocker.isEngaged());
+        } finally {
+            console.error = originalError;
+        }
+
+        otherOwner.dispose();
+        assert.strictEqual(registeredCommands.size, 0);
+
+        // Released blockers try again
+        blocker.release();
+        assert.ok(blocker.engage());
+        blocker.dispose();
+        assert.strictEqual(registeredCommands.size, 0);
+    });
+});
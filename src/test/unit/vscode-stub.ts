@@ -0,0 +1,289 @@
+import Module = require('module');
+
+/**
+ * Listener registered through one of the stubbed workspace events
+ */
+type Listener = (event: unknown) => void;
+
+const listeners: { [event: string]: Listener[] } = {};
+const configuration: { [key: string]: unknown } = {};
+const workspaceConfiguration: { [key: string]: unknown } = {};
+const files: { [uri: string]: string } = {};
+
+/**
+ * Edits applied through the stubbed workspace, in order
+ */
+export const appliedEdits: WorkspaceEdit[] = [];
+
+/**
+ * Error messages shown through the stubbed window, in order
+ */
+export const errorMessages: string[] = [];
+
+/**
+ * Commands executed through the stubbed command registry, in order
+ */
+export const executedCommands: { command: string; args: unknown[] }[] = [];
+
+/**
+ * Command handlers registered with the stubbed command registry
+ */
+export const registeredCommands = new Map<string, (...args: unknown[]) => unknown>();
+
+/**
+ * Creates a stubbed workspace event that records its listeners
+ * @param name Event name
+ */
+function stubEvent(name: string) {
+    return (listener: Listener) => {
+        (listeners[name] ??= []).push(listener);
+        return new Disposable(() => {
+            listeners[name] = listeners[name].filter(registered => registered !== listener);
+        });
+    };
+}
+
+/**
+ * Minimal stand-in for vscode.Disposable
+ */
+class Disposable {
+    constructor(private readonly callOnDispose: () => void) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+/**
+ * Minimal stand-in for vscode.Range
+ */
+class Range {
+    constructor(readonly start: unknown, readonly end: unknown) {}
+}
+
+/**
+ * Minimal stand-in for vscode.Uri; only what the game core reads
+ */
+class Uri {
+    readonly scheme = 'file';
+
+    constructor(readonly path: string) {}
+
+    static file(path: string): Uri {
+        return new Uri(path);
+    }
+
+    static joinPath(base: Uri, ...segments: string[]): Uri {
+        return new Uri([base.path, ...segments].join('/'));
+    }
+
+    toString(): string {
+        return `file://${this.path}`;
+    }
+}
+
+/**
+ * Minimal stand-in for vscode.RelativePattern
+ */
+class RelativePattern {
+    constructor(readonly base: unknown, readonly pattern: string) {}
+}
+
+/**
+ * Minimal stand-in for vscode.WorkspaceEdit that records replacements
+ */
+class WorkspaceEdit {
+    readonly replacements: { uri: unknown; range: Range; newText: string }[] = [];
+
+    replace(uri: unknown, range: Range, newText: string): void {
+        this.replacements.push({ uri, range, newText });
+    }
+}
+
+/**
+ * Minimal subset of the vscode API used by the game core, so unit tests can
+ * run headless under Node without a VS Code instance
+ */
+export const vscodeStub = {
+    Disposable,
+    Range,
+    Uri,
+    RelativePattern,
+    WorkspaceEdit,
+    ConfigurationTarget: {
+        Global: 1,
+        Workspace: 2,
+        WorkspaceFolder: 3
+    },
+    TextDocumentChangeReason: {
+        Undo: 1,
+        Redo: 2
+    },
+    TextEdit: {
+        replace: (range: Range, newText: string) => ({ range, newText })
+    },
+    workspace: {
+        textDocuments: [] as unknown[],
+        onDidChangeTextDocument: stubEvent('onDidChangeTextDocument'),
+        onWillSaveTextDocument: stubEvent('onWillSaveTextDocument'),
+        onDidSaveTextDocument: stubEvent('onDidSaveTextDocument'),
+        onDidOpenTextDocument: stubEvent('onDidOpenTextDocument'),
+        onDidCloseTextDocument: stubEvent('onDidCloseTextDocument'),
+        onDidChangeConfiguration: stubEvent('onDidChangeConfiguration'),
+        onDidChangeWorkspaceFolders: stubEvent('onDidChangeWorkspaceFolders'),
+        onDidGrantWorkspaceTrust: stubEvent('onDidGrantWorkspaceTrust'),
+        isTrusted: true,
+        workspaceFolders: undefined as { uri: Uri; name: string; index: number }[] | undefined,
+        getConfiguration: () => ({
+            get: (key: string, defaultValue?: unknown) => {
+                if (key in workspaceConfiguration) {
+                    return workspaceConfiguration[key];
+                }
+                return key in configuration ? configuration[key] : defaultValue;
+            },
+            inspect: (key: string) => ({
+                key,
+                globalValue: configuration[key],
+                workspaceValue: workspaceConfiguration[key]
+            }),
+            update: async (key: string, value: unknown, target?: number) => {
+                setConfiguration(key, value, target === 1 || target === undefined ? 'user' : 'workspace');
+                fireWorkspaceEvent('onDidChangeConfiguration', { affectsConfiguration: () => true });
+            }
+        }),
+        createFileSystemWatcher: () => ({
+            onDidCreate: stubEvent('fileWatcher.onDidCreate'),
+            onDidChange: stubEvent('fileWatcher.onDidChange'),
+            onDidDelete: stubEvent('fileWatcher.onDidDelete'),
+            dispose: () => undefined
+        }),
+        getWorkspaceFolder: () => undefined,
+        applyEdit: async (edit: WorkspaceEdit) => {
+            appliedEdits.push(edit);
+            return true;
+        },
+        fs: {
+            readFile: async (uri: { toString(): string }) => {
+                const text = files[uri.toString()];
+                if (text === undefined) {
+                    throw new Error(`File not found: ${uri.toString()}`);
+                }
+                return Buffer.from(text);
+            }
+        },
+        decode: async (content: Uint8Array) => Buffer.from(content).toString('utf8')
+    },
+    commands: {
+        registerCommand: (command: string, handler: (...args: unknown[]) => unknown) => {
+            if (registeredCommands.has(command)) {
+                throw new Error(`command '${command}' already exists`);
+            }
+            registeredCommands.set(command, handler);
+            return new Disposable(() => {
+                if (registeredCommands.get(command) === handler) {
+                    registeredCommands.delete(command);
+                }
+            });
+        },
+        executeCommand: async (command: string, ...args: unknown[]) => {
+            executedCommands.push({ command, args });
+            return undefined;
+        }
+    },
+    window: {
+        activeTextEditor: undefined as unknown,
+        onDidStartTerminalShellExecution: stubEvent('onDidStartTerminalShellExecution'),
+        onDidChangeTerminalState: stubEvent('onDidChangeTerminalState'),
+        onDidChangeTextEditorSelection: stubEvent('onDidChangeTextEditorSelection'),
+        onDidChangeTextEditorVisibleRanges: stubEvent('onDidChangeTextEditorVisibleRanges'),
+        onDidChangeActiveTextEditor: stubEvent('onDidChangeActiveTextEditor'),
+        showErrorMessage: async (message: string) => {
+            errorMessages.push(message);
+            return undefined;
+        },
+        showWarningMessage: async () => undefined,
+        showInformationMessage: async () => undefined,
+        setStatusBarMessage: () => new Disposable(() => undefined)
+    }
+};
+
+/**
+ * Sets a value returned by the stubbed configuration
+ * @param key Setting key within the extension section
+ * @param value Setting value, or undefined to use the default
+ * @param target Settings layer the value is set in (default: user settings)
+ */
+export function setConfiguration(key: string, value: unknown, target: 'user' | 'workspace' = 'user'): void {
+    const layer = target === 'workspace' ? workspaceConfiguration : configuration;
+    if (value === undefined) {
+        delete layer[key];
+    } else {
+        layer[key] = value;
+    }
+}
+
+/**
+ * Removes every value set in the stubbed configuration
+ */
+export function resetConfiguration(): void {
+    for (const layer of [configuration, workspaceConfiguration]) {
+        for (const key of Object.keys(layer)) {
+            delete layer[key];
+        }
+    }
+}
+
+/**
+ * Sets the content read from disk for a file
+ * @param uri File URI string
+ * @param text File content
+ */
+export function setFileContent(uri: string, text: string): void {
+    files[uri] = text;
+}
+
+/**
+ * Fires a stubbed workspace event
+ * @param name Event name, e.g. onDidChangeTextDocument
+ * @param event Event payload
+ */
+export function fireWorkspaceEvent(name: string, event: unknown): void {
+    (listeners[name] ?? []).forEach(listener => listener(event));
+}
+
+/**
+ * Fires a stubbed window event
+ * @param name Event name, e.g. onDidStartTerminalShellExecution
+ * @param event Event payload
+ */
+export function fireWindowEvent(name: string, event: unknown): void {
+    fireWorkspaceEvent(name, event);
+}
+
+/**
+ * Removes all listeners registered with the stubbed workspace and window events,
+ * along with file contents, recorded edits, shown messages, commands and the active editor
+ */
+export function resetWorkspaceListeners(): void {
+    for (const name of Object.keys(listeners)) {
+        delete listeners[name];
+    }
+    for (const uri of Object.keys(files)) {
+        delete files[uri];
+    }
+    appliedEdits.length = 0;
+    errorMessages.length = 0;
+    executedCommands.length = 0;
+    registeredCommands.clear();
+    vscodeStub.window.activeTextEditor = undefined;
+}
+
+// Resolve `import * as vscode from 'vscode'` to the stub
+const moduleLoader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const originalLoad = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') {
+        return vscodeStub;
+    }
+    return originalLoad.call(this, request, ...rest);
+};
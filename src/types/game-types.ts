@@ -4,7 +4,9 @@
 export enum GameState {
     Stopped = 'stopped',
     RedLight = 'red',
-    GreenLight = 'green'
+    GreenLight = 'green',
+    YellowLight = 'yellow',
+    Paused = 'paused'
 }
 
 /**
@@ -12,7 +14,43 @@ export enum GameState {
  */
 export enum RedLightAction {
     Close = 'close',
-    Warn = 'warn'
+    Warn = 'warn',
+    Revert = 'revert',
+    Lock = 'lock',
+    EndSession = 'endSession'
+}
+
+/**
+ * Kinds of movement that can be a red light violation
+ */
+export enum ViolationKind {
+    Edit = 'edit',
+    Save = 'save',
+    Terminal = 'terminal',
+    Selection = 'selection',
+    Scroll = 'scroll',
+    EditorSwitch = 'editorSwitch'
+}
+
+/**
+ * Where a document edit came from
+ */
+export enum ChangeSource {
+    Typed = 'typed',
+    Pasted = 'pasted',
+    Undo = 'undo',
+    Redo = 'redo',
+    External = 'external',
+    Formatter = 'formatter',
+    Refactor = 'refactor'
+}
+
+/**
+ * Single phase of an explicit phase schedule
+ */
+export interface ScheduledPhase {
+    readonly state: GameState.RedLight | GameState.GreenLight;
+    readonly duration: number;
 }
 
 /**
@@ -21,9 +59,32 @@ export enum RedLightAction {
 export interface TimerConfig {
     readonly redLightDuration: number;
     readonly greenLightDuration: number;
+    /** Warning phase between green and red; 0 disables it */
+    readonly yellowLightDuration: number;
     readonly useRandomTiming: boolean;
     readonly maxRandomTime: number;
     readonly minRandomTime: number;
+    readonly randomSeed: string;
+    readonly schedule: readonly ScheduledPhase[];
+    readonly loopSchedule: boolean;
+}
+
+/**
+ * Single step of the penalty ladder, applied once the violation count reaches it
+ */
+export interface PenaltyStep {
+    readonly violations: number;
+    readonly action: RedLightAction;
+    readonly lockDuration?: number;
+}
+
+/**
+ * Penalty ladder configuration interface
+ */
+export interface PenaltyLadderConfig {
+    readonly enabled: boolean;
+    readonly windowSeconds: number;
+    readonly steps: readonly PenaltyStep[];
 }
 
 /**
@@ -32,6 +93,7 @@ export interface TimerConfig {
 export interface GameConfig {
     readonly timerConfig: TimerConfig;
     readonly redLightAction: RedLightAction;
+    readonly penaltyLadder: PenaltyLadderConfig;
     readonly gracePeriod: number;
     readonly showTimer: boolean;
     readonly enableSounds: boolean;
@@ -58,12 +120,51 @@ export interface GameStateChangeEvent {
     readonly remainingTime?: number;
 }
 
+/**
+ * Game phase change event data, sent when a red, yellow or green phase begins.
+ * Consecutive scheduled phases with the same light each send one.
+ */
+export interface GamePhaseChangeEvent {
+    /** Light of the phase that ended, or stopped for the first phase of a session */
+    readonly previousState: GameState;
+    readonly currentState: GameState;
+    /** Zero-based number of the phase within the session */
+    readonly phaseIndex: number;
+    readonly timestamp: number;
+}
+
 /**
  * Red light violation event data
  */
 export interface RedLightViolationEvent {
     readonly timestamp: number;
     readonly documentUri: string;
+    readonly kind: ViolationKind;
+    /** Source of the edit, for edit violations */
+    readonly changeSource?: ChangeSource;
     readonly changeText: string;
+    /** Number of characters the edit inserted, for edits and blocked input */
+    readonly insertedCharacters?: number;
     readonly actionTaken: RedLightAction;
+    readonly lockDuration?: number;
+}
+
+/**
+ * Phase transition recorded in the session history
+ */
+export interface PhaseTransitionRecord {
+    readonly timestamp: number;
+    readonly previousState: GameState;
+    readonly currentState: GameState;
+}
+
+/**
+ * Completed game session recorded in the session history
+ */
+export interface SessionRecord {
+    readonly id: string;
+    readonly startTime: number;
+    readonly endTime: number;
+    readonly transitions: readonly PhaseTransitionRecord[];
+    readonly violations: readonly RedLightViolationEvent[];
 }
@@ -13,23 +13,179 @@ export interface SoundConfig {
     readonly volume: number;
     readonly redLightSound: boolean;
     readonly greenLightSound: boolean;
+    readonly yellowLightSound: boolean;
     readonly violationSound: boolean;
     readonly gameStartSound: boolean;
 }
 
+/**
+ * Phase within a schedule block; `step` is added to the duration on every repeat
+ */
+export interface SchedulePhaseSettings {
+    readonly light: 'green' | 'red';
+    readonly duration: number;
+    readonly step?: number;
+}
+
+/**
+ * Group of phases repeated a number of times
+ */
+export interface ScheduleBlockSettings {
+    readonly phases: readonly SchedulePhaseSettings[];
+    readonly repeat?: number;
+}
+
+/**
+ * Explicit phase schedule configuration
+ */
+export interface ScheduleSettings {
+    readonly enabled: boolean;
+    readonly loop: boolean;
+    readonly blocks: readonly ScheduleBlockSettings[];
+}
+
+/**
+ * Penalty ladder step as configured in settings
+ */
+export interface PenaltyStepSettings {
+    readonly violations: number;
+    readonly action: 'warn' | 'revert' | 'lock' | 'endSession' | 'close';
+    readonly lockDuration?: number;
+}
+
+/**
+ * Penalty ladder configuration
+ */
+export interface PenaltyLadderSettings {
+    readonly enabled: boolean;
+    readonly windowSeconds: number;
+    readonly steps: readonly PenaltyStepSettings[];
+}
+
+/**
+ * Rules for which documents are policed during red light.
+ * Empty `include` and `languages` lists match every document.
+ */
+export interface DocumentRulesSettings {
+    readonly schemes: readonly string[];
+    readonly languages: readonly string[];
+    readonly excludeLanguages: readonly string[];
+    readonly include: readonly string[];
+    readonly exclude: readonly string[];
+}
+
+/**
+ * Hard mode settings; each movement kind can be switched off on its own
+ */
+export interface HardModeSettings {
+    readonly enabled: boolean;
+    readonly selection: boolean;
+    readonly scroll: boolean;
+    readonly editorSwitch: boolean;
+}
+
+/**
+ * Whether edits from each change source count as red light violations
+ */
+export interface ChangeSourceSettings {
+    readonly typed: boolean;
+    readonly pasted: boolean;
+    readonly undo: boolean;
+    readonly redo: boolean;
+    readonly external: boolean;
+    readonly formatter: boolean;
+    readonly refactor: boolean;
+}
+
+/**
+ * Scoring formula settings
+ */
+export interface ScoringSettings {
+    /** Points for each character typed during green or yellow light */
+    readonly pointsPerCharacter: number;
+    /** Added to the typing multiplier for each clean red light in a row */
+    readonly streakBonus: number;
+    /** Highest typing multiplier */
+    readonly maxMultiplier: number;
+    /** Points deducted for each violation */
+    readonly violationPenalty: number;
+    /** Extra points deducted for each character typed in a violation */
+    readonly penaltyPerCharacter: number;
+}
+
+/**
+ * Visual feedback settings
+ */
+export interface VisualSettings {
+    readonly showStatusBar: boolean;
+    readonly showNotifications: boolean;
+    readonly useColorTheme: boolean;
+    readonly flashOnStateChange: boolean;
+}
+
 /**
  * Extension settings interface matching package.json configuration
  */
 export interface ExtensionSettings {
     readonly redLightDuration: number;
     readonly greenLightDuration: number;
+    readonly enableYellowLight: boolean;
+    readonly yellowLightDuration: number;
     readonly gracePeriod: number;
     readonly showTimer: boolean;
     readonly useRandomTiming: boolean;
     readonly randomTiming: RandomTimingConfig;
-    readonly redLightAction: 'close' | 'warn';
+    readonly randomSeed: string;
+    readonly schedule: ScheduleSettings;
+    readonly redLightAction: 'close' | 'warn' | 'revert';
+    readonly penaltyLadder: PenaltyLadderSettings;
+    readonly documentRules: DocumentRulesSettings;
+    readonly monitorTerminal: boolean;
+    readonly deferSaves: boolean;
+    readonly blockTyping: boolean;
+    readonly changeSources: ChangeSourceSettings;
+    readonly scoring: ScoringSettings;
+    readonly hardMode: HardModeSettings;
+    readonly profiles: readonly SettingsProfile[];
+    readonly activeProfile: string;
     readonly enableSounds: boolean;
     readonly soundSettings: SoundConfig;
+    readonly enableVisualFeedback: boolean;
+    readonly visualSettings: VisualSettings;
+}
+
+/**
+ * Settings that make up a difficulty profile
+ */
+export const PROFILE_SETTING_KEYS = [
+    'redLightDuration',
+    'greenLightDuration',
+    'enableYellowLight',
+    'yellowLightDuration',
+    'gracePeriod',
+    'useRandomTiming',
+    'randomTiming',
+    'redLightAction',
+    'penaltyLadder',
+    'hardMode'
+] as const;
+
+/**
+ * Setting stored in a profile
+ */
+export type ProfileSettingKey = typeof PROFILE_SETTING_KEYS[number];
+
+/**
+ * Profile values; settings a profile leaves out are applied with their defaults
+ */
+export type ProfileSettings = Partial<Pick<ExtensionSettings, ProfileSettingKey>>;
+
+/**
+ * Named difficulty profile
+ */
+export interface SettingsProfile {
+    readonly name: string;
+    readonly settings: ProfileSettings;
 }
 
 /**
@@ -45,16 +201,6 @@ export interface TimingSettings {
     };
 }
 
-/**
- * Visual feedback settings
- */
-export interface VisualSettings {
-    readonly showStatusBar: boolean;
-    readonly showNotifications: boolean;
-    readonly useColorTheme: boolean;
-    readonly flashOnStateChange: boolean;
-}
-
 /**
  * Audio settings (future feature)
  */
@@ -81,6 +227,8 @@ export interface SettingsValidationResult {
 export const DEFAULT_SETTINGS: ExtensionSettings = {
     redLightDuration: 5,
     greenLightDuration: 10,
+    enableYellowLight: false,
+    yellowLightDuration: 3,
     gracePeriod: 0.5,
     showTimer: true,
     useRandomTiming: false,
@@ -88,13 +236,84 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
         maxTime: 15,
         minTime: 3
     },
+    randomSeed: '',
+    schedule: {
+        enabled: false,
+        loop: false,
+        blocks: [
+            {
+                phases: [
+                    { light: 'green', duration: 25 },
+                    { light: 'red', duration: 5 }
+                ],
+                repeat: 4
+            },
+            {
+                phases: [
+                    { light: 'red', duration: 900 }
+                ]
+            }
+        ]
+    },
     redLightAction: 'warn',
+    penaltyLadder: {
+        enabled: false,
+        windowSeconds: 0,
+        steps: [
+            { violations: 1, action: 'warn' },
+            { violations: 2, action: 'revert' },
+            { violations: 3, action: 'lock', lockDuration: 10 },
+            { violations: 5, action: 'endSession' }
+        ]
+    },
+    documentRules: {
+        schemes: ['file', 'untitled'],
+        languages: [],
+        excludeLanguages: [],
+        include: [],
+        exclude: []
+    },
+    monitorTerminal: false,
+    deferSaves: false,
+    blockTyping: false,
+    changeSources: {
+        typed: true,
+        pasted: true,
+        undo: false,
+        redo: false,
+        external: false,
+        formatter: false,
+        refactor: true
+    },
+    scoring: {
+        pointsPerCharacter: 1,
+        streakBonus: 0.5,
+        maxMultiplier: 3,
+        violationPenalty: 25,
+        penaltyPerCharacter: 2
+    },
+    hardMode: {
+        enabled: false,
+        selection: true,
+        scroll: true,
+        editorSwitch: true
+    },
+    profiles: [],
+    activeProfile: '',
     enableSounds: false,
     soundSettings: {
         volume: 0.5,
         redLightSound: true,
         greenLightSound: true,
+        yellowLightSound: true,
         violationSound: true,
         gameStartSound: true
+    },
+    enableVisualFeedback: true,
+    visualSettings: {
+        showStatusBar: true,
+        showNotifications: false,
+        useColorTheme: true,
+        flashOnStateChange: true
     }
 } as const;
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { GameEngine } from '../game/game-engine';
+import { GameState, GameStateChangeEvent } from '../types/game-types';
+
+/**
+ * Context keys for `when` clauses in menus and keybindings
+ */
+export enum GameContextKey {
+    /** Current game state: `stopped`, `green`, `yellow`, `red` or `paused` */
+    State = 'redLightGreenLight.state',
+    /** True while a session is running, including while it is paused */
+    Active = 'redLightGreenLight.active',
+    /** False during red light, true otherwise */
+    TypingAllowed = 'redLightGreenLight.typingAllowed'
+}
+
+/**
+ * Keeps the game's context keys in sync with the game engine
+ */
+export class GameContextKeys implements vscode.Disposable {
+    private gameEngine: GameEngine;
+    private values = new Map<GameContextKey, string | boolean>();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new GameContextKeys instance and sets the initial values
+     * @param gameEngine Game engine instance
+     */
+    constructor(gameEngine: GameEngine) {
+        this.gameEngine = gameEngine;
+        this.update(gameEngine.getCurrentState());
+
+        const stateChangeDisposable = this.gameEngine.onStateChange(
+            (event: GameStateChangeEvent) => this.update(event.currentState)
+        );
+        this.disposables.push(stateChangeDisposable);
+    }
+
+    /**
+     * Sets the context keys for a game state
+     * @param state Game state
+     */
+    private update(state: GameState): void {
+        this.set(GameContextKey.State, state);
+        this.set(GameContextKey.Active, state !== GameState.Stopped);
+        this.set(GameContextKey.TypingAllowed, state !== GameState.RedLight);
+    }
+
+    /**
+     * Sets a context key, skipping values that have not changed (such as on timer ticks)
+     * @param key Context key
+     * @param value New value
+     */
+    private set(key: GameContextKey, value: string | boolean): void {
+        if (this.values.get(key) === value) {
+            return;
+        }
+
+        this.values.set(key, value);
+        Promise.resolve(vscode.commands.executeCommand('setContext', key, value)).catch(error => {
+            console.error(`Failed to set context key ${key}:`, error);
+        });
+    }
+
+    /**
+     * Disposes of the context keys and cleans up resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { GameState, GameStateChangeEvent } from '../types/game-types';
+import { VisualSettings } from '../types/settings-types';
 
 /**
  * Visual feedback types for different game events
@@ -7,6 +8,7 @@ import { GameState, GameStateChangeEvent } from '../types/game-types';
 export enum VisualFeedbackType {
     RedLightStart = 'redLightStart',
     GreenLightStart = 'greenLightStart',
+    YellowLightStart = 'yellowLightStart',
     Violation = 'violation',
     GameStart = 'gameStart',
     GameStop = 'gameStop'
@@ -17,17 +19,22 @@ export enum VisualFeedbackType {
  */
 export class VisualFeedbackManager implements vscode.Disposable {
     private isEnabled: boolean = true;
+    private config: VisualSettings;
     private statusBarItem: vscode.StatusBarItem | undefined;
     private decorationType: vscode.TextEditorDecorationType | undefined;
     private disposables: vscode.Disposable[] = [];
     private currentState: GameState = GameState.Stopped;
     private activeDecorations: vscode.TextEditorDecorationType[] = [];
     private feedbackInProgress: boolean = false;
+    private statusText: string = '';
+    private score: number | undefined;
 
     /**
      * Creates a new VisualFeedbackManager instance
+     * @param config Visual feedback configuration
      */
-    constructor() {
+    constructor(config: VisualSettings) {
+        this.config = config;
         this.initializeStatusBar();
         this.initializeDecorations();
     }
@@ -43,6 +50,25 @@ export class VisualFeedbackManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Updates the visual feedback configuration
+     * @param newConfig New visual feedback configuration
+     */
+    public updateConfig(newConfig: VisualSettings): void {
+        this.config = { ...newConfig };
+
+        if (!this.statusBarItem) {
+            return;
+        }
+
+        this.statusBarItem.backgroundColor = this.getStatusBarColor(this.currentState);
+        if (this.config.showStatusBar && this.isEnabled && this.currentState !== GameState.Stopped) {
+            this.statusBarItem.show();
+        } else {
+            this.statusBarItem.hide();
+        }
+    }
+
     /**
      * Handles game state changes with visual feedback
      * @param event Game state change event
@@ -75,8 +101,11 @@ export class VisualFeedbackManager implements vscode.Disposable {
      * @param event Game state change event
      */
     private showImmediateFeedback(event: GameStateChangeEvent): void {
-        if (event.currentState === GameState.RedLight && event.previousState === GameState.GreenLight) {
+        if (event.currentState === GameState.RedLight &&
+            (event.previousState === GameState.GreenLight || event.previousState === GameState.YellowLight)) {
             this.showRedLightFeedback();
+        } else if (event.currentState === GameState.YellowLight && event.previousState === GameState.GreenLight) {
+            this.showYellowLightFeedback();
         } else if (event.currentState === GameState.GreenLight && event.previousState === GameState.RedLight) {
             this.showGreenLightFeedback();
         } else if (event.currentState === GameState.GreenLight && event.previousState === GameState.Stopped) {
@@ -105,12 +134,33 @@ export class VisualFeedbackManager implements vscode.Disposable {
         vscode.window.setStatusBarMessage('🔴 RED LIGHT - STOP TYPING!', 1000);
         
         // Highlight editors immediately
-        this.highlightEditorsImmediate('red');
+        if (this.config.flashOnStateChange) {
+            this.highlightEditorsImmediate('red');
+        }
         
         // Show brief notification (don't wait for it)
-        vscode.window.showErrorMessage('🔴 RED LIGHT - STOP TYPING!').then(() => {
-            setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 800);
-        });
+        if (this.config.showNotifications) {
+            vscode.window.showErrorMessage('🔴 RED LIGHT - STOP TYPING!').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 800);
+            });
+        }
+    }
+
+    /**
+     * Shows immediate yellow light feedback
+     */
+    private showYellowLightFeedback(): void {
+        vscode.window.setStatusBarMessage('🟡 YELLOW LIGHT - Red Light Coming!', 1000);
+
+        if (this.config.flashOnStateChange) {
+            this.highlightEditorsImmediate('yellow');
+        }
+
+        if (this.config.showNotifications) {
+            vscode.window.showWarningMessage('🟡 YELLOW LIGHT - Red Light Coming!').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 800);
+            });
+        }
     }
 
     /**
@@ -124,9 +174,11 @@ export class VisualFeedbackManager implements vscode.Disposable {
         vscode.window.setStatusBarMessage('🟢 GREEN LIGHT - Type Away!', 600);
         
         // Show brief notification (don't wait for it)
-        vscode.window.showInformationMessage('🟢 GREEN LIGHT - Type Away!').then(() => {
-            setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 500);
-        });
+        if (this.config.showNotifications) {
+            vscode.window.showInformationMessage('🟢 GREEN LIGHT - Type Away!').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 500);
+            });
+        }
     }
 
     /**
@@ -134,9 +186,11 @@ export class VisualFeedbackManager implements vscode.Disposable {
      */
     private showGameStartFeedback(): void {
         vscode.window.setStatusBarMessage('🎮 Game Started!', 800);
-        vscode.window.showInformationMessage('🎮 Game Started!').then(() => {
-            setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 600);
-        });
+        if (this.config.showNotifications) {
+            vscode.window.showInformationMessage('🎮 Game Started!').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 600);
+            });
+        }
     }
 
     /**
@@ -145,9 +199,11 @@ export class VisualFeedbackManager implements vscode.Disposable {
     private showGameStopFeedback(): void {
         this.clearAllHighlights();
         vscode.window.setStatusBarMessage('🛑 Game Stopped', 600);
-        vscode.window.showInformationMessage('🛑 Game Stopped').then(() => {
-            setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 500);
-        });
+        if (this.config.showNotifications) {
+            vscode.window.showInformationMessage('🛑 Game Stopped').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 500);
+            });
+        }
     }
 
     /**
@@ -161,24 +217,30 @@ export class VisualFeedbackManager implements vscode.Disposable {
         this.highlightEditorsImmediate('violation');
         
         // Show error notification (don't wait)
-        vscode.window.showErrorMessage('⚠️ RED LIGHT VIOLATION!').then(() => {
-            setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 1200);
-        });
+        if (this.config.showNotifications) {
+            vscode.window.showErrorMessage('⚠️ RED LIGHT VIOLATION!').then(() => {
+                setTimeout(() => vscode.commands.executeCommand('notifications.clearAll'), 1200);
+            });
+        }
         
         // Create flashing status bar item
-        const flashItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1000);
-        flashItem.text = '🔴 VIOLATION!';
-        flashItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
-        flashItem.show();
-        
-        setTimeout(() => flashItem.dispose(), 2000);
+        if (this.config.showStatusBar) {
+            const flashItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1000);
+            flashItem.text = '🔴 VIOLATION!';
+            flashItem.backgroundColor = this.config.useColorTheme
+                ? new vscode.ThemeColor('statusBarItem.errorBackground')
+                : undefined;
+            flashItem.show();
+            
+            setTimeout(() => flashItem.dispose(), 2000);
+        }
     }
 
     /**
      * Highlights editors immediately without async operations
      * @param type Highlight type
      */
-    private highlightEditorsImmediate(type: 'red' | 'green' | 'violation'): void {
+    private highlightEditorsImmediate(type: 'red' | 'yellow' | 'green' | 'violation'): void {
         const editors = vscode.window.visibleTextEditors;
         
         // Clear any existing highlights first
@@ -233,7 +295,29 @@ export class VisualFeedbackManager implements vscode.Disposable {
         const timeText = `${minutes}:${seconds.toString().padStart(2, '0')}`;
         
         const stateIcon = this.getStateIcon(this.currentState);
-        this.statusBarItem.text = `${stateIcon} ${timeText}`;
+        this.setStatusText(`${stateIcon} ${timeText}`);
+    }
+
+    /**
+     * Updates the score shown next to the status bar countdown
+     * @param score Current score, or undefined to hide it
+     */
+    public updateScore(score: number | undefined): void {
+        this.score = score;
+        this.setStatusText(this.statusText);
+    }
+
+    /**
+     * Sets the status bar text, followed by the score
+     * @param text State and countdown text
+     */
+    private setStatusText(text: string): void {
+        this.statusText = text;
+        if (!this.statusBarItem) {
+            return;
+        }
+
+        this.statusBarItem.text = this.score !== undefined ? `${text} · ${this.score} pts` : text;
     }
 
     /**
@@ -274,10 +358,10 @@ export class VisualFeedbackManager implements vscode.Disposable {
         const stateIcon = this.getStateIcon(event.currentState);
         const stateText = this.getStateText(event.currentState);
         
-        this.statusBarItem.text = `${stateIcon} ${stateText}`;
+        this.setStatusText(`${stateIcon} ${stateText}`);
         this.statusBarItem.backgroundColor = this.getStatusBarColor(event.currentState);
         
-        if (event.currentState !== GameState.Stopped) {
+        if (this.config.showStatusBar && event.currentState !== GameState.Stopped) {
             this.statusBarItem.show();
         } else {
             this.statusBarItem.hide();
@@ -297,6 +381,11 @@ export class VisualFeedbackManager implements vscode.Disposable {
                 await this.showNotificationFlash('🔴 RED LIGHT - STOP TYPING!', 'error', 1000);
                 await this.highlightAllOpenEditors('red');
                 break;
+            case VisualFeedbackType.YellowLightStart:
+                console.log('Executing yellow light visual feedback');
+                await this.showNotificationFlash('🟡 YELLOW LIGHT - Red Light Coming!', 'warn', 1000);
+                await this.highlightAllOpenEditors('yellow');
+                break;
             case VisualFeedbackType.GreenLightStart:
                 console.log('Executing green light visual feedback');
                 await this.showNotificationFlash('🟢 GREEN LIGHT - Type Away!', 'info', 600);
@@ -354,7 +443,7 @@ export class VisualFeedbackManager implements vscode.Disposable {
      * Highlights all open editors with a colored border
      * @param type Highlight type
      */
-    private async highlightAllOpenEditors(type: 'red' | 'green' | 'violation'): Promise<void> {
+    private async highlightAllOpenEditors(type: 'red' | 'yellow' | 'green' | 'violation'): Promise<void> {
         const editors = vscode.window.visibleTextEditors;
         console.log(`Highlighting ${editors.length} visible editors with type: ${type}`);
         
@@ -410,7 +499,7 @@ export class VisualFeedbackManager implements vscode.Disposable {
      * @param type Highlight type
      * @returns Decoration type
      */
-    private createDecorationForType(type: 'red' | 'green' | 'violation'): vscode.TextEditorDecorationType {
+    private createDecorationForType(type: 'red' | 'yellow' | 'green' | 'violation'): vscode.TextEditorDecorationType {
         switch (type) {
             case 'red':
                 return vscode.window.createTextEditorDecorationType({
@@ -419,6 +508,13 @@ export class VisualFeedbackManager implements vscode.Disposable {
                     borderRadius: '2px',
                     isWholeLine: false
                 });
+            case 'yellow':
+                return vscode.window.createTextEditorDecorationType({
+                    backgroundColor: 'rgba(255, 204, 0, 0.05)',
+                    border: '2px solid rgba(255, 204, 0, 0.3)',
+                    borderRadius: '2px',
+                    isWholeLine: false
+                });
             case 'green':
                 return vscode.window.createTextEditorDecorationType({
                     backgroundColor: 'rgba(0, 255, 0, 0.05)',
@@ -516,6 +612,10 @@ export class VisualFeedbackManager implements vscode.Disposable {
                 return '🔴';
             case GameState.GreenLight:
                 return '🟢';
+            case GameState.YellowLight:
+                return '🟡';
+            case GameState.Paused:
+                return '⏸️';
             case GameState.Stopped:
                 return '⏹️';
             default:
@@ -534,6 +634,10 @@ export class VisualFeedbackManager implements vscode.Disposable {
                 return 'RED LIGHT';
             case GameState.GreenLight:
                 return 'GREEN LIGHT';
+            case GameState.YellowLight:
+                return 'YELLOW LIGHT';
+            case GameState.Paused:
+                return 'PAUSED';
             case GameState.Stopped:
                 return 'Game Stopped';
             default:
@@ -547,11 +651,17 @@ export class VisualFeedbackManager implements vscode.Disposable {
      * @returns Status bar color
      */
     private getStatusBarColor(state: GameState): vscode.ThemeColor | undefined {
+        if (!this.config.useColorTheme) {
+            return undefined;
+        }
+
         switch (state) {
             case GameState.RedLight:
                 return new vscode.ThemeColor('statusBarItem.errorBackground');
             case GameState.GreenLight:
                 return new vscode.ThemeColor('statusBarItem.prominentBackground');
+            case GameState.YellowLight:
+                return new vscode.ThemeColor('statusBarItem.warningBackground');
             default:
                 return undefined;
         }
@@ -1,250 +1,182 @@
 import * as vscode from 'vscode';
 import { GameEngine } from '../game/game-engine';
+import { TimerHandle } from '../game/clock';
 import { GameState, GameStateChangeEvent } from '../types/game-types';
 import { SettingsManager } from '../config/settings-manager';
+import { SessionHistory } from '../services/session-history';
+import { ScoreKeeper } from '../services/score-keeper';
 
 /**
- * Tree item for the game panel
+ * Number of recent sessions shown in the violations chart
  */
-export class GamePanelItem extends vscode.TreeItem {
-    constructor(
-        public readonly label: string,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly command?: vscode.Command,
-        public readonly iconPath?: vscode.ThemeIcon | string,
-        public readonly tooltip?: string,
-        public readonly contextValue?: string
-    ) {
-        super(label, collapsibleState);
-        this.command = command;
-        this.iconPath = iconPath;
-        this.tooltip = tooltip;
-        this.contextValue = contextValue;
-    }
-}
+const CHART_SESSION_COUNT = 10;
 
 /**
- * Provides data for the Red Light Green Light explorer panel
+ * Time in milliseconds score changes are collected for before the dashboard
+ * is refreshed, so typing does not post a message per keystroke
  */
-export class GamePanelProvider implements vscode.TreeDataProvider<GamePanelItem>, vscode.Disposable {
-    private _onDidChangeTreeData: vscode.EventEmitter<GamePanelItem | undefined | null | void> = new vscode.EventEmitter<GamePanelItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<GamePanelItem | undefined | null | void> = this._onDidChangeTreeData.event;
+const SCORE_REFRESH_DELAY_MS = 250;
+
+/**
+ * Messages posted from the dashboard webview to the extension
+ */
+type DashboardMessage =
+    | { readonly type: 'ready' }
+    | { readonly type: 'start' }
+    | { readonly type: 'stop' }
+    | { readonly type: 'pause' }
+    | { readonly type: 'resume' }
+    | { readonly type: 'switchProfile' }
+    | { readonly type: 'openSettings' };
+
+/**
+ * Commands executed for dashboard button messages
+ */
+const MESSAGE_COMMANDS: { readonly [type: string]: string } = {
+    start: 'redLightGreenLight.startGame',
+    stop: 'redLightGreenLight.stopGame',
+    pause: 'redLightGreenLight.pauseGame',
+    resume: 'redLightGreenLight.resumeGame',
+    switchProfile: 'redLightGreenLight.switchProfile'
+};
+
+/**
+ * Provides the Red Light Green Light dashboard webview in the explorer panel
+ */
+export class GamePanelProvider implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly VIEW_ID = 'redLightGreenLightView';
 
     private gameEngine: GameEngine;
     private settingsManager: SettingsManager;
+    private sessionHistory: SessionHistory;
+    private scoreKeeper: ScoreKeeper;
+    private view: vscode.WebviewView | undefined;
+    private phaseDuration: number = 0;
+    private scoreRefreshTimeout: TimerHandle | null = null;
+    /** Listeners of the resolved webview, which VS Code disposes whenever the view is hidden or moved */
+    private viewDisposables: vscode.Disposable[] = [];
     private disposables: vscode.Disposable[] = [];
 
     /**
      * Creates a new GamePanelProvider instance
      * @param gameEngine Game engine instance
      * @param settingsManager Settings manager instance
+     * @param sessionHistory Session history instance used for the violations chart
+     * @param scoreKeeper Score keeper instance for the live score
      */
-    constructor(gameEngine: GameEngine, settingsManager: SettingsManager) {
+    constructor(
+        gameEngine: GameEngine,
+        settingsManager: SettingsManager,
+        sessionHistory: SessionHistory,
+        scoreKeeper: ScoreKeeper
+    ) {
         this.gameEngine = gameEngine;
         this.settingsManager = settingsManager;
+        this.sessionHistory = sessionHistory;
+        this.scoreKeeper = scoreKeeper;
         this.setupGameEngineListeners();
     }
 
     /**
-     * Gets tree item representation
-     * @param element Tree item element
-     * @returns Tree item
+     * Resolves the dashboard webview when the view becomes visible
+     * @param webviewView Webview view to populate
      */
-    getTreeItem(element: GamePanelItem): vscode.TreeItem {
-        return element;
-    }
+    public resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.disposeViewListeners();
+        this.view = webviewView;
 
-    /**
-     * Gets children of a tree item
-     * @param element Parent element (undefined for root)
-     * @returns Array of child items
-     */
-    getChildren(element?: GamePanelItem): Thenable<GamePanelItem[]> {
-        if (!element) {
-            // Root level items
-            return Promise.resolve(this.getRootItems());
-        }
-        
-        // No nested items for now
-        return Promise.resolve([]);
-    }
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: []
+        };
+        webviewView.webview.html = this.getHtml(webviewView.webview);
 
-    /**
-     * Refreshes the tree view
-     */
-    public refresh(): void {
-        this._onDidChangeTreeData.fire();
-    }
+        webviewView.webview.onDidReceiveMessage(
+            (message: DashboardMessage) => this.handleMessage(message),
+            undefined,
+            this.viewDisposables
+        );
 
-    /**
-     * Gets the root level items for the tree
-     * @returns Array of root items
-     */
-    private getRootItems(): GamePanelItem[] {
-        const items: GamePanelItem[] = [];
-        
-        // Game status item
-        items.push(this.createGameStatusItem());
-        
-        // Control buttons
-        if (this.gameEngine.getCurrentState() === GameState.Stopped) {
-            items.push(this.createStartButton());
-        } else {
-            items.push(this.createStopButton());
-        }
-        
-        // Current phase and timer (if game is active)
-        if (this.gameEngine.isActive()) {
-            items.push(this.createCurrentPhaseItem());
-            
-            // Only show timer if setting is enabled
-            if (this.settingsManager.getSettings().showTimer) {
-                items.push(this.createTimerItem());
+        webviewView.onDidChangeVisibility(() => {
+            if (webviewView.visible) {
+                this.refresh();
+                this.postHistory();
             }
-        }
-        
-        // Settings shortcut
-        items.push(this.createSettingsItem());
-        
-        return items;
+        }, undefined, this.viewDisposables);
+
+        webviewView.onDidDispose(() => {
+            // The view may already have been resolved again
+            if (this.view === webviewView) {
+                this.view = undefined;
+                this.disposeViewListeners();
+            }
+        }, undefined, this.viewDisposables);
     }
 
     /**
-     * Creates the game status item
-     * @returns Game status tree item
+     * Posts the current game state to the dashboard
      */
-    private createGameStatusItem(): GamePanelItem {
-        const currentState = this.gameEngine.getCurrentState();
-        let label: string;
-        let icon: vscode.ThemeIcon;
-        let tooltip: string;
-        
-        switch (currentState) {
-            case GameState.Stopped:
-                label = 'Game Stopped';
-                icon = new vscode.ThemeIcon('circle-outline');
-                tooltip = 'The Red Light Green Light game is not running';
-                break;
-            case GameState.RedLight:
-                label = '🔴 RED LIGHT - Stop Typing!';
-                icon = new vscode.ThemeIcon('error');
-                tooltip = 'RED LIGHT: Do not type or make changes!';
-                break;
-            case GameState.GreenLight:
-                label = '🟢 GREEN LIGHT - Type Away!';
-                icon = new vscode.ThemeIcon('check');
-                tooltip = 'GREEN LIGHT: You can type and make changes';
-                break;
-            default:
-                label = 'Unknown State';
-                icon = new vscode.ThemeIcon('question');
-                tooltip = 'Game is in an unknown state';
+    public refresh(): void {
+        this.cancelScoreRefresh();
+        if (!this.view) {
+            return;
         }
-        
-        return new GamePanelItem(
-            label,
-            vscode.TreeItemCollapsibleState.None,
-            undefined,
-            icon,
-            tooltip,
-            'gameStatus'
-        );
-    }
 
-    /**
-     * Creates the start game button
-     * @returns Start button tree item
-     */
-    private createStartButton(): GamePanelItem {
-        return new GamePanelItem(
-            'Start Game',
-            vscode.TreeItemCollapsibleState.None,
-            {
-                command: 'redLightGreenLight.startGame',
-                title: 'Start Game'
-            },
-            new vscode.ThemeIcon('play'),
-            'Click to start the Red Light Green Light game',
-            'startButton'
-        );
+        const remainingTime = this.gameEngine.getRemainingTime();
+        this.view.webview.postMessage({
+            type: 'state',
+            state: this.gameEngine.getCurrentState(),
+            remainingTime,
+            phaseDuration: Math.max(this.phaseDuration, remainingTime),
+            schedulePosition: this.gameEngine.getSchedulePosition(),
+            showTimer: this.settingsManager.getSettings().showTimer,
+            profile: this.settingsManager.getActiveProfileLabel(),
+            score: this.scoreKeeper.getScore(),
+            multiplier: this.scoreKeeper.getMultiplier()
+        });
     }
 
     /**
-     * Creates the stop game button
-     * @returns Stop button tree item
+     * Posts violation counts for recent sessions to the dashboard
      */
-    private createStopButton(): GamePanelItem {
-        return new GamePanelItem(
-            'Stop Game',
-            vscode.TreeItemCollapsibleState.None,
-            {
-                command: 'redLightGreenLight.stopGame',
-                title: 'Stop Game'
-            },
-            new vscode.ThemeIcon('stop'),
-            'Click to stop the Red Light Green Light game',
-            'stopButton'
-        );
-    }
+    private async postHistory(): Promise<void> {
+        if (!this.view) {
+            return;
+        }
 
-    /**
-     * Creates the current phase display item
-     * @returns Current phase tree item
-     */
-    private createCurrentPhaseItem(): GamePanelItem {
-        const currentState = this.gameEngine.getCurrentState();
-        const phaseText = currentState === GameState.RedLight ? 'Red Light Phase' : 'Green Light Phase';
-        const icon = currentState === GameState.RedLight 
-            ? new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('errorForeground'))
-            : new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('terminal.ansiGreen'));
-        
-        return new GamePanelItem(
-            phaseText,
-            vscode.TreeItemCollapsibleState.None,
-            undefined,
-            icon,
-            `Currently in ${phaseText.toLowerCase()}`,
-            'currentPhase'
-        );
-    }
+        try {
+            const sessions = await this.sessionHistory.getSessions();
+            const recent = sessions.slice(-CHART_SESSION_COUNT).map(session => ({
+                label: new Date(session.startTime).toLocaleDateString(),
+                violations: session.violations.length
+            }));
 
-    /**
-     * Creates the timer display item
-     * @returns Timer tree item
-     */
-    private createTimerItem(): GamePanelItem {
-        const remainingTime = this.gameEngine.getRemainingTime();
-        const minutes = Math.floor(remainingTime / 60);
-        const seconds = remainingTime % 60;
-        const timeText = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-        
-        return new GamePanelItem(
-            `Time Remaining: ${timeText}`,
-            vscode.TreeItemCollapsibleState.None,
-            undefined,
-            new vscode.ThemeIcon('clock'),
-            `${remainingTime} seconds remaining in current phase`,
-            'timer'
-        );
+            this.view?.webview.postMessage({ type: 'history', sessions: recent });
+        } catch (error) {
+            console.error('Failed to load session history for dashboard:', error);
+        }
     }
 
     /**
-     * Creates the settings shortcut item
-     * @returns Settings tree item
+     * Handles messages posted by the dashboard webview
+     * @param message Dashboard message
      */
-    private createSettingsItem(): GamePanelItem {
-        return new GamePanelItem(
-            'Game Settings',
-            vscode.TreeItemCollapsibleState.None,
-            {
-                command: 'workbench.action.openSettings',
-                title: 'Open Settings',
-                arguments: ['redLightGreenLight']
-            },
-            new vscode.ThemeIcon('settings-gear'),
-            'Open Red Light Green Light settings',
-            'settings'
-        );
+    private async handleMessage(message: DashboardMessage): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                this.refresh();
+                await this.postHistory();
+                break;
+            case 'openSettings':
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'redLightGreenLight');
+                break;
+            default: {
+                const command = MESSAGE_COMMANDS[message.type];
+                if (command) {
+                    await vscode.commands.executeCommand(command);
+                }
+            }
+        }
     }
 
     /**
@@ -254,71 +186,337 @@ export class GamePanelProvider implements vscode.TreeDataProvider<GamePanelItem>
         const stateChangeDisposable = this.gameEngine.onStateChange(
             (event: GameStateChangeEvent) => {
                 this.refresh();
+
+                if (event.currentState === GameState.Stopped && event.previousState !== GameState.Stopped) {
+                    this.postHistory();
+                }
             }
         );
         this.disposables.push(stateChangeDisposable);
 
-        // Listen for settings changes to refresh panel when timer visibility changes
+        // A new phase starts with its full duration; pausing and resuming stays within the phase
+        const phaseChangeDisposable = this.gameEngine.onPhaseChange(() => {
+            this.phaseDuration = this.gameEngine.getRemainingTime();
+            this.refresh();
+        });
+        this.disposables.push(phaseChangeDisposable);
+
+        // Listen for settings changes to refresh panel when timer visibility or the profile changes
         const settingsChangeDisposable = this.settingsManager.onSettingsChange(() => {
             this.refresh();
         });
         this.disposables.push(settingsChangeDisposable);
+
+        const scoreChangeDisposable = this.scoreKeeper.onScoreChange(() => this.scheduleScoreRefresh());
+        this.disposables.push(scoreChangeDisposable);
     }
 
     /**
-     * Creates a welcome view when no game is running (alternative approach)
+     * Refreshes the dashboard shortly after a score change, together with the changes that follow it
      */
-    public createWelcomeView(): GamePanelItem[] {
-        return [
-            new GamePanelItem(
-                'Welcome to Red Light Green Light!',
-                vscode.TreeItemCollapsibleState.None,
-                undefined,
-                new vscode.ThemeIcon('info'),
-                'Welcome to the Red Light Green Light typing game',
-                'welcome'
-            ),
-            new GamePanelItem(
-                'Click Start Game to begin',
-                vscode.TreeItemCollapsibleState.None,
-                {
-                    command: 'redLightGreenLight.startGame',
-                    title: 'Start Game'
-                },
-                new vscode.ThemeIcon('play'),
-                'Start your first game session',
-                'welcomeStart'
-            ),
-            new GamePanelItem(
-                'Configure Settings',
-                vscode.TreeItemCollapsibleState.None,
-                {
-                    command: 'workbench.action.openSettings',
-                    title: 'Open Settings',
-                    arguments: ['redLightGreenLight']
-                },
-                new vscode.ThemeIcon('settings-gear'),
-                'Configure game timing and behavior',
-                'welcomeSettings'
-            )
-        ];
+    private scheduleScoreRefresh(): void {
+        if (!this.view || this.scoreRefreshTimeout) {
+            return;
+        }
+
+        this.scoreRefreshTimeout = this.gameEngine.getClock().setTimeout(() => {
+            this.scoreRefreshTimeout = null;
+            this.refresh();
+        }, SCORE_REFRESH_DELAY_MS);
     }
 
     /**
-     * Handles tree item selection
-     * @param item Selected tree item
+     * Cancels a pending score refresh
      */
-    public onTreeItemSelected(item: GamePanelItem): void {
-        // Handle custom logic for tree item selection if needed
-        console.log(`Tree item selected: ${item.label}`);
+    private cancelScoreRefresh(): void {
+        if (this.scoreRefreshTimeout) {
+            this.gameEngine.getClock().clearTimeout(this.scoreRefreshTimeout);
+            this.scoreRefreshTimeout = null;
+        }
+    }
+
+    /**
+     * Disposes of the listeners of the current webview
+     */
+    private disposeViewListeners(): void {
+        this.viewDisposables.forEach(disposable => disposable.dispose());
+        this.viewDisposables.length = 0;
+    }
+
+    /**
+     * Builds the dashboard HTML
+     * @param webview Webview the HTML is rendered in
+     * @returns Dashboard HTML
+     */
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = createNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Red Light Green Light</title>
+    <style nonce="${nonce}">
+        body {
+            padding: 12px;
+            color: var(--vscode-foreground);
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+        }
+        .status {
+            text-align: center;
+            font-weight: bold;
+            margin-bottom: 12px;
+        }
+        .game {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 20px;
+        }
+        .traffic-light {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            padding: 10px;
+            border-radius: 14px;
+            background: #222;
+        }
+        .lamp {
+            width: 44px;
+            height: 44px;
+            border-radius: 50%;
+            opacity: 0.2;
+            transition: opacity 0.2s;
+        }
+        .lamp.on {
+            opacity: 1;
+            box-shadow: 0 0 16px currentColor;
+        }
+        .lamp.red { background: #e51400; color: #e51400; }
+        .lamp.yellow { background: #ffcc00; color: #ffcc00; }
+        .lamp.green { background: #2ea043; color: #2ea043; }
+        .ring {
+            position: relative;
+            width: 110px;
+            height: 110px;
+        }
+        .ring svg {
+            transform: rotate(-90deg);
+        }
+        .ring .track {
+            stroke: var(--vscode-editorWidget-border, #555);
+        }
+        .ring .progress {
+            stroke: var(--vscode-foreground);
+            transition: stroke-dashoffset 0.9s linear;
+        }
+        .ring .time {
+            position: absolute;
+            inset: 0;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 22px;
+            font-variant-numeric: tabular-nums;
+        }
+        .phase {
+            text-align: center;
+            margin-top: 8px;
+            opacity: 0.8;
+        }
+        .hidden {
+            visibility: hidden;
+        }
+        .controls {
+            display: flex;
+            gap: 6px;
+            margin: 16px 0;
+        }
+        button {
+            flex: 1;
+            padding: 6px;
+            border: none;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            cursor: pointer;
+        }
+        button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        h3 {
+            margin: 12px 0 6px;
+            font-size: 11px;
+            text-transform: uppercase;
+        }
+        .chart {
+            display: flex;
+            align-items: flex-end;
+            gap: 4px;
+            height: 80px;
+            border-bottom: 1px solid var(--vscode-editorWidget-border, #555);
+        }
+        .bar {
+            flex: 1;
+            min-height: 1px;
+            background: #e51400;
+        }
+        .empty {
+            opacity: 0.7;
+        }
+    </style>
+</head>
+<body>
+    <div class="status" id="status">Game Stopped</div>
+    <div class="game">
+        <div class="traffic-light">
+            <div class="lamp red" id="lamp-red"></div>
+            <div class="lamp yellow" id="lamp-yellow"></div>
+            <div class="lamp green" id="lamp-green"></div>
+        </div>
+        <div class="ring" id="ring">
+            <svg width="110" height="110">
+                <circle class="track" cx="55" cy="55" r="48" fill="none" stroke-width="8"></circle>
+                <circle class="progress" id="progress" cx="55" cy="55" r="48" fill="none" stroke-width="8"></circle>
+            </svg>
+            <div class="time" id="time">--</div>
+        </div>
+    </div>
+    <div class="phase hidden" id="phase"></div>
+    <div class="phase hidden" id="score"></div>
+    <div class="controls">
+        <button id="start">Start</button>
+        <button id="pause">Pause</button>
+        <button id="stop">Stop</button>
+    </div>
+    <h3>Violations per session</h3>
+    <div class="chart" id="chart"></div>
+    <p class="empty" id="chart-empty">No sessions recorded yet.</p>
+    <div class="controls">
+        <button id="profile" title="Switch difficulty profile">Profile</button>
+        <button id="settings">Game Settings</button>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const circumference = 2 * Math.PI * 48;
+        const progress = document.getElementById('progress');
+        progress.style.strokeDasharray = String(circumference);
+
+        const labels = {
+            ${GameState.Stopped}: 'Game Stopped',
+            ${GameState.RedLight}: '🔴 RED LIGHT - Stop Typing!',
+            ${GameState.GreenLight}: '🟢 GREEN LIGHT - Type Away!',
+            ${GameState.YellowLight}: '🟡 YELLOW LIGHT - Red Light Coming!',
+            ${GameState.Paused}: '⏸️ PAUSED - Take a Break'
+        };
+
+        let paused = false;
+
+        for (const type of ['start', 'stop', 'settings']) {
+            document.getElementById(type).addEventListener('click', () => {
+                vscode.postMessage({ type: type === 'settings' ? 'openSettings' : type });
+            });
+        }
+
+        document.getElementById('profile').addEventListener('click', () => {
+            vscode.postMessage({ type: 'switchProfile' });
+        });
+
+        document.getElementById('pause').addEventListener('click', () => {
+            vscode.postMessage({ type: paused ? 'resume' : 'pause' });
+        });
+
+        function formatTime(seconds) {
+            const minutes = Math.floor(seconds / 60);
+            return minutes + ':' + String(seconds % 60).padStart(2, '0');
+        }
+
+        function renderState(message) {
+            const active = message.state !== '${GameState.Stopped}';
+            paused = message.state === '${GameState.Paused}';
+            document.getElementById('status').textContent = labels[message.state] || 'Unknown State';
+            document.getElementById('lamp-red').classList.toggle('on', message.state === '${GameState.RedLight}');
+            document.getElementById('lamp-yellow').classList.toggle('on', message.state === '${GameState.YellowLight}');
+            document.getElementById('lamp-green').classList.toggle('on', message.state === '${GameState.GreenLight}');
+            document.getElementById('start').disabled = active;
+            document.getElementById('stop').disabled = !active;
+            document.getElementById('pause').disabled = !active;
+            document.getElementById('pause').textContent = paused ? 'Resume' : 'Pause';
+            document.getElementById('profile').textContent = 'Profile: ' + message.profile;
+
+            document.getElementById('ring').classList.toggle('hidden', !active || !message.showTimer);
+            document.getElementById('time').textContent = formatTime(message.remainingTime);
+            const fraction = message.phaseDuration > 0 ? message.remainingTime / message.phaseDuration : 0;
+            progress.style.strokeDashoffset = String(circumference * (1 - fraction));
+
+            const position = message.schedulePosition;
+            document.getElementById('phase').classList.toggle('hidden', !active || !position);
+            document.getElementById('phase').textContent = position
+                ? 'Phase ' + (position.index + 1) + ' of ' + position.total
+                : '';
+
+            document.getElementById('score').classList.toggle('hidden', !active);
+            document.getElementById('score').textContent = 'Score: ' + message.score +
+                (message.multiplier > 1 ? ' (x' + message.multiplier + ')' : '');
+        }
+
+        function renderHistory(sessions) {
+            const chart = document.getElementById('chart');
+            chart.replaceChildren();
+            document.getElementById('chart-empty').classList.toggle('hidden', sessions.length > 0);
+
+            const max = Math.max(1, ...sessions.map(session => session.violations));
+            for (const session of sessions) {
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.height = (session.violations / max * 100) + '%';
+                bar.title = session.label + ': ' + session.violations + ' violations';
+                chart.appendChild(bar);
+            }
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'state') {
+                renderState(message);
+            } else if (message.type === 'history') {
+                renderHistory(message.sessions);
+            }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
     }
 
     /**
      * Disposes of the game panel provider and cleans up resources
      */
     public dispose(): void {
+        this.cancelScoreRefresh();
+        this.disposeViewListeners();
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables.length = 0;
-        this._onDidChangeTreeData.dispose();
+        this.view = undefined;
+    }
+}
+
+/**
+ * Creates a random nonce for the webview content security policy
+ * @returns Nonce string
+ */
+function createNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
     }
+    return nonce;
 }